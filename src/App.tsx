@@ -1,55 +1,124 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { ChatArea } from './components/ChatArea';
-import { NoteView } from './components/NoteView';
+import { NoteView, NoteChanges } from './components/NoteView';
+import { FlashcardReview } from './components/FlashcardReview';
 import { InstallPrompt } from './components/InstallPrompt';
 import { SettingsModal } from './components/SettingsModal';
 import { QuizModal } from './components/QuizModal';
-import { Conversation, Message, APISettings, Note, StudySession } from './types';
-import { generateId, generateConversationTitle } from './utils/helpers';
+import { QuizSetupModal } from './components/QuizSetupModal';
+import { DeleteConversationModal } from './components/DeleteConversationModal';
+import { UnlockModal } from './components/UnlockModal';
+import { Conversation, Message, APISettings, Note, Folder, LibraryItemKind, StudySession, QuizAttempt, QuizOptions, QuizQuestion, Flashcard, FlashcardDeck, ReviewGrade, ModelId, EditMode, ReplyError, ContextSummary } from './types';
+import { generateId, generateConversationTitle, downloadFile, normalizeTag } from './utils/helpers';
+import { ExportFormat, exportLibraryItems, openPrintView } from './utils/export';
+import { createFlashcard, isDue, scheduleReview } from './utils/spacedRepetition';
+import { appendMessage, getActiveLeafId, getActivePath, getLatestLeafId } from './utils/messageTree';
 import { usePWA } from './hooks/usePWA';
-import { Menu } from 'lucide-react';
-import { storageUtils } from './utils/storage';
-import { aiService } from './services/aiService';
+import { Menu, AlertTriangle, X } from 'lucide-react';
+import { storageUtils, describeStorageError } from './utils/storage';
+import { aiService, ChatProfile, resolvePersona, resolveProvider } from './services/aiService';
+import { ApiError } from './services/http';
+import { planContext } from './services/contextWindow';
+import { getPersona } from './services/personas';
+import { DEFAULT_MODEL_ID, ModelProvider, extractApiKeys, getModelName, getProvider, isProviderConfigured, listProviders, lockApiKeys, withApiKeys, withoutApiKeys } from './services/providers';
+import { KeyVaultStatus, keyVault } from './services/keyVault';
 import { ThemeProvider } from './context/ThemeContext'; // Import ThemeProvider
 
-type ActiveView = 'chat' | 'note';
+type ActiveView = 'chat' | 'note' | 'review';
 
 function App() {
   // --- STATE INITIALIZATION ---
-  const [conversations, setConversations] = useState<Conversation[]>(() => storageUtils.getConversations());
-  const [notes, setNotes] = useState<Note[]>(() => storageUtils.getNotes());
-  const [settings, setSettings] = useState<APISettings>(() => storageUtils.getSettings());
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [settings, setSettings] = useState<APISettings>(() =>
+    keyVault.isEnabled() ? lockApiKeys(storageUtils.getSettings(), keyVault.getLockedEndpointIds()) : storageUtils.getSettings()
+  );
   const [activeView, setActiveView] = useState<ActiveView>('chat');
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
   const [currentNoteId, setCurrentNoteId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   const [sidebarFolded, setSidebarFolded] = useState(() => JSON.parse(localStorage.getItem('ai-tutor-sidebar-folded') || 'false'));
   
   // New state for theme context
   const [effectiveTheme, setEffectiveTheme] = useState<'light' | 'dark'>('light');
 
-  const [isChatLoading, setIsChatLoading] = useState(false);
   const [isQuizLoading, setIsQuizLoading] = useState(false);
-  const [streamingMessage, setStreamingMessage] = useState<Message | null>(null);
+  const [isFlashcardsLoading, setIsFlashcardsLoading] = useState(false);
+  // In-progress replies keyed by conversation id; several chats can generate at once
+  const [streamingMessages, setStreamingMessages] = useState<Record<string, Message>>({});
+  // Failed replies are kept out of the history and offered for retry instead
+  const [replyErrors, setReplyErrors] = useState<Record<string, ReplyError>>({});
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [isQuizModalOpen, setIsQuizModalOpen] = useState(false);
-  const [studySession, setStudySession] = useState<StudySession | null>(null);
-  const stopStreamingRef = useRef(false);
+  const [isQuizSetupOpen, setIsQuizSetupOpen] = useState(false);
+  // Chats waiting on a decision about the notes saved from them
+  const [pendingConversationDelete, setPendingConversationDelete] = useState<string[] | null>(null);
+  const [quizzes, setQuizzes] = useState<StudySession[]>([]);
+  const [currentQuizId, setCurrentQuizId] = useState<string | null>(null);
+  const [decks, setDecks] = useState<FlashcardDeck[]>([]);
+  const [flashcards, setFlashcards] = useState<Flashcard[]>([]);
+  const [isDataLoaded, setIsDataLoaded] = useState(false);
+  // Encrypted API keys start out locked, so the passphrase is asked for on startup
+  const [keyVaultStatus, setKeyVaultStatus] = useState<KeyVaultStatus>(() => keyVault.getStatus());
+  const [isUnlockPromptOpen, setIsUnlockPromptOpen] = useState(() => keyVault.isEnabled());
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const abortControllersRef = useRef(new Map<string, AbortController>());
+  // Settles when the reply has been added to the conversation, even a stopped one
+  const replyTasksRef = useRef(new Set<Promise<void>>());
+  const quizAbortControllerRef = useRef<AbortController | null>(null);
+  const flashcardsAbortControllerRef = useRef<AbortController | null>(null);
+  // Last state known to be in IndexedDB, used to write only what changed
+  const persistedConversationsRef = useRef<Conversation[]>([]);
+  const persistedNotesRef = useRef<Note[]>([]);
+  const persistedQuizzesRef = useRef<StudySession[]>([]);
+  const persistedDecksRef = useRef<FlashcardDeck[]>([]);
+  const persistedFlashcardsRef = useRef<Flashcard[]>([]);
+  const persistedFoldersRef = useRef<Folder[]>([]);
 
   const { isInstallable, isInstalled, installApp, dismissInstallPrompt } = usePWA();
   
+  // Loads everything from IndexedDB, on startup and after a backup import
+  const loadStoredData = async () => {
+    const data = await storageUtils.getAllData();
+    persistedConversationsRef.current = data.conversations;
+    persistedNotesRef.current = data.notes;
+    persistedQuizzesRef.current = data.quizzes;
+    persistedDecksRef.current = data.decks;
+    persistedFlashcardsRef.current = data.flashcards;
+    persistedFoldersRef.current = data.folders;
+    setConversations(data.conversations);
+    setNotes(data.notes);
+    setQuizzes(data.quizzes);
+    setDecks(data.decks);
+    setFlashcards(data.flashcards);
+    setFolders(data.folders);
+    const sorted = [...data.conversations].sort((a, b) => {
+      if (a.isPinned && !b.isPinned) return -1;
+      if (!a.isPinned && b.isPinned) return 1;
+      return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+    });
+    // Stay on the open chat and note when they still exist
+    setCurrentConversationId(prev => (prev && sorted.some(c => c.id === prev) ? prev : sorted[0]?.id ?? null));
+    setCurrentNoteId(prev => (prev && data.notes.some(n => n.id === prev) ? prev : null));
+  };
+
   // --- EFFECTS ---
   useEffect(() => {
-    const initialConversations = storageUtils.getConversations();
-    if (initialConversations.length > 0) {
-      const sorted = [...initialConversations].sort((a, b) => {
-        if (a.isPinned && !b.isPinned) return -1;
-        if (!a.isPinned && b.isPinned) return 1;
-        return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
-      });
-      setCurrentConversationId(sorted[0].id);
-    }
+    loadStoredData()
+      .then(() => {
+        const skipped = storageUtils.takeSkippedLegacyCount();
+        if (skipped > 0) {
+          setStorageError(`${skipped} saved ${skipped === 1 ? 'item' : 'items'} from an older version could not be moved to the new storage. The old copy was kept in this browser.`);
+        }
+      })
+      .catch(error => {
+        console.error('Error loading data:', error);
+        setStorageError(`Could not load your data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      })
+      .finally(() => setIsDataLoaded(true));
   }, []);
 
   useEffect(() => {
@@ -69,8 +138,94 @@ function App() {
     aiService.updateSettings(settings);
   }, [settings]);
 
-  useEffect(() => { storageUtils.saveConversations(conversations); }, [conversations]);
-  useEffect(() => { storageUtils.saveNotes(notes); }, [notes]);
+  // Locks the encrypted keys again after a stretch without any input
+  useEffect(() => {
+    if (keyVaultStatus !== 'unlocked' || settings.autoLockMinutes <= 0) return;
+    const activityEvents = ['pointerdown', 'keydown', 'wheel', 'touchstart'];
+    let timer: ReturnType<typeof setTimeout>;
+    const restartTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        keyVault.lock();
+        setSettings(prev => lockApiKeys(prev, keyVault.getLockedEndpointIds()));
+        setKeyVaultStatus('locked');
+        setIsUnlockPromptOpen(true);
+      }, settings.autoLockMinutes * 60_000);
+    };
+    activityEvents.forEach(name => window.addEventListener(name, restartTimer, { passive: true }));
+    restartTimer();
+    return () => {
+      clearTimeout(timer);
+      activityEvents.forEach(name => window.removeEventListener(name, restartTimer));
+    };
+  }, [keyVaultStatus, settings.autoLockMinutes]);
+
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    const previous = persistedConversationsRef.current;
+    persistedConversationsRef.current = conversations;
+    storageUtils.syncConversations(previous, conversations).catch(error => {
+      console.error('Error saving conversations:', error);
+      // Forget the baseline so the next change rewrites everything that may have been lost
+      persistedConversationsRef.current = [];
+      setStorageError(describeStorageError(error));
+    });
+  }, [conversations, isDataLoaded]);
+
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    const previous = persistedNotesRef.current;
+    persistedNotesRef.current = notes;
+    storageUtils.syncNotes(previous, notes).catch(error => {
+      console.error('Error saving notes:', error);
+      persistedNotesRef.current = [];
+      setStorageError(describeStorageError(error));
+    });
+  }, [notes, isDataLoaded]);
+
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    const previous = persistedQuizzesRef.current;
+    persistedQuizzesRef.current = quizzes;
+    storageUtils.syncQuizzes(previous, quizzes).catch(error => {
+      console.error('Error saving quizzes:', error);
+      persistedQuizzesRef.current = [];
+      setStorageError(describeStorageError(error));
+    });
+  }, [quizzes, isDataLoaded]);
+
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    const previous = persistedDecksRef.current;
+    persistedDecksRef.current = decks;
+    storageUtils.syncDecks(previous, decks).catch(error => {
+      console.error('Error saving decks:', error);
+      persistedDecksRef.current = [];
+      setStorageError(describeStorageError(error));
+    });
+  }, [decks, isDataLoaded]);
+
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    const previous = persistedFlashcardsRef.current;
+    persistedFlashcardsRef.current = flashcards;
+    storageUtils.syncFlashcards(previous, flashcards).catch(error => {
+      console.error('Error saving flashcards:', error);
+      persistedFlashcardsRef.current = [];
+      setStorageError(describeStorageError(error));
+    });
+  }, [flashcards, isDataLoaded]);
+
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    const previous = persistedFoldersRef.current;
+    persistedFoldersRef.current = folders;
+    storageUtils.syncFolders(previous, folders).catch(error => {
+      console.error('Error saving folders:', error);
+      persistedFoldersRef.current = [];
+      setStorageError(describeStorageError(error));
+    });
+  }, [folders, isDataLoaded]);
   useEffect(() => { localStorage.setItem('ai-tutor-sidebar-folded', JSON.stringify(sidebarFolded)); }, [sidebarFolded]);
 
   // Effect to manage theme switching and dynamic assets
@@ -117,18 +272,27 @@ function App() {
 
   // --- MEMOS ---
   const currentConversation = useMemo(() => conversations.find(c => c.id === currentConversationId), [conversations, currentConversationId]);
+  const contextUsage = useMemo(() => {
+    const provider = resolveProvider(currentConversation, settings);
+    if (!currentConversation || !provider) return null;
+    return planContext(getActivePath(currentConversation), provider, resolvePersona(currentConversation, settings).systemPrompt, currentConversation.contextSummary).usage;
+  }, [currentConversation, settings]);
+  const currentQuiz = useMemo(() => quizzes.find(q => q.id === currentQuizId) ?? null, [quizzes, currentQuizId]);
   const currentNote = useMemo(() => notes.find(n => n.id === currentNoteId), [notes, currentNoteId]);
-  const hasApiKey = !!(settings.googleApiKey || settings.zhipuApiKey || settings.mistralApiKey);
+  const hasApiKey = useMemo(() => listProviders(settings).some(p => isProviderConfigured(p, settings)), [settings]);
   const logoSrc = useMemo(() => (effectiveTheme === 'dark' ? '/white-logo.png' : '/black-logo.png'), [effectiveTheme]);
   
   // --- GENERAL HANDLERS ---
   const handleSelectConversation = (id: string) => {
+    // Replies keep streaming in the background; only the quiz belongs to the open chat
+    if (id !== currentConversationId) quizAbortControllerRef.current?.abort();
     setActiveView('chat');
     setCurrentConversationId(id);
     setCurrentNoteId(null);
     if (window.innerWidth < 1024) setSidebarOpen(false);
   };
   const handleSelectNote = (id: string | null) => {
+    quizAbortControllerRef.current?.abort();
     setActiveView('note');
     setCurrentNoteId(id);
     setCurrentConversationId(null);
@@ -144,154 +308,235 @@ function App() {
       messages: [], 
       createdAt: new Date(), 
       updatedAt: new Date(),
+      tutorMode: settings.selectedTutorMode,
+      model: settings.selectedModel,
     };
     setConversations(prev => [newConversation, ...prev]);
     handleSelectConversation(newConversation.id);
   };
 
+  // Streams an assistant reply to `history` and attaches it below the last message of it
+  const streamAssistantReply = async (conversation: Conversation, history: Message[]) => {
+    const conversationId = conversation.id;
+    const parentId = history[history.length - 1].id;
+    const provider = resolveProvider(conversation, settings);
+    if (keyVaultStatus === 'locked' && (!provider || !isProviderConfigured(provider, settings))) {
+      // Offered for retry once the keys are unlocked
+      setReplyErrors(prev => ({ ...prev, [conversationId]: { message: 'Your API keys are locked. Unlock them to get a reply.', kind: 'auth' } }));
+      setIsUnlockPromptOpen(true);
+      return;
+    }
+    const controller = new AbortController();
+    abortControllersRef.current.set(conversationId, controller);
+    let finishTask = () => {};
+    const task = new Promise<void>(resolve => { finishTask = resolve; });
+    replyTasksRef.current.add(task);
+
+    let assistantMessage: Message = { id: generateId(), content: '', role: 'assistant', timestamp: new Date(), model: provider?.id ?? settings.selectedModel, parentId };
+    let fullResponse = '';
+
+    try {
+      handleDismissReplyError(conversationId);
+      setStreamingMessages(prev => ({ ...prev, [conversationId]: assistantMessage }));
+
+      const onSummary = (summary?: ContextSummary) => {
+        setConversations(prev => prev.map(conv => conv.id === conversationId ? { ...conv, contextSummary: summary } : conv));
+      };
+      const onFallback = (provider: ModelProvider) => {
+        assistantMessage = { ...assistantMessage, model: provider.id };
+        setStreamingMessages(prev => (prev[conversationId] ? { ...prev, [conversationId]: { ...prev[conversationId], model: provider.id } } : prev));
+      };
+
+      for await (const chunk of aiService.generateStreamingResponse(conversation, history, { signal: controller.signal, onFallback, onSummary })) {
+        fullResponse += chunk;
+        const content = fullResponse;
+        setStreamingMessages(prev => (prev[conversationId] ? { ...prev, [conversationId]: { ...prev[conversationId], content } } : prev));
+      }
+
+      const finalAssistantMessage: Message = { ...assistantMessage, content: fullResponse };
+      setConversations(prev => prev.map(conv =>
+        conv.id === conversationId ? appendMessage(conv, finalAssistantMessage) : conv
+      ));
+    } catch (error) {
+      // Keep whatever arrived before the user stopped generating or the stream broke off
+      if (fullResponse) {
+        const stoppedMessage: Message = { ...assistantMessage, content: fullResponse, isStopped: true };
+        setConversations(prev => prev.map(conv =>
+          conv.id === conversationId ? appendMessage(conv, stoppedMessage) : conv
+        ));
+      }
+      if (controller.signal.aborted) return;
+
+      console.error('Error generating response:', error);
+      const replyError: ReplyError = error instanceof ApiError
+        ? { message: error.message, kind: error.kind }
+        : { message: error instanceof Error ? error.message : 'Unknown error' };
+      setReplyErrors(prev => ({ ...prev, [conversationId]: replyError }));
+    } finally {
+      if (abortControllersRef.current.get(conversationId) === controller) abortControllersRef.current.delete(conversationId);
+      replyTasksRef.current.delete(task);
+      finishTask();
+      setStreamingMessages(prev => {
+        const rest = { ...prev };
+        delete rest[conversationId];
+        return rest;
+      });
+    }
+  };
+
   const handleSendMessage = async (content: string) => {
+    if (!hasApiKey && keyVaultStatus === 'locked') {
+      setIsUnlockPromptOpen(true);
+      return;
+    }
     if (!hasApiKey) {
       alert('Please set your API key in the settings first.');
       return;
     }
 
-    const userMessage: Message = { id: generateId(), content, role: 'user', timestamp: new Date() };
-
     let conversationToUpdate: Conversation;
     const existingConversation = conversations.find(c => c.id === currentConversationId);
 
-    if (activeView === 'note' || !existingConversation) {
+    if (activeView !== 'chat' || !existingConversation) {
+      const userMessage: Message = { id: generateId(), content, role: 'user', timestamp: new Date(), parentId: null };
       conversationToUpdate = {
         id: generateId(),
         title: generateConversationTitle(content),
         messages: [userMessage],
+        activeLeafId: userMessage.id,
         createdAt: new Date(),
         updatedAt: new Date(),
+        tutorMode: settings.selectedTutorMode,
+        model: settings.selectedModel,
       };
       setConversations(prev => [conversationToUpdate, ...prev]);
       handleSelectConversation(conversationToUpdate.id);
     } else {
+      const userMessage: Message = { id: generateId(), content, role: 'user', timestamp: new Date(), parentId: getActiveLeafId(existingConversation) };
       conversationToUpdate = {
-        ...existingConversation,
+        ...appendMessage(existingConversation, userMessage),
         title: existingConversation.messages.length === 0 
                ? generateConversationTitle(content) 
                : existingConversation.title,
-        messages: [...existingConversation.messages, userMessage],
-        updatedAt: new Date(),
       };
       setConversations(prev => prev.map(c => c.id === conversationToUpdate.id ? conversationToUpdate : c));
     }
 
-    setIsChatLoading(true);
-    stopStreamingRef.current = false;
-
-    try {
-      const assistantMessage: Message = { id: generateId(), content: '', role: 'assistant', timestamp: new Date(), model: settings.selectedModel };
-      setStreamingMessage(assistantMessage);
+    await streamAssistantReply(conversationToUpdate, getActivePath(conversationToUpdate));
+  };
 
-      let fullResponse = '';
-      const messagesForApi = conversationToUpdate.messages.map(m => ({ role: m.role, content: m.content }));
+  // Returns whether the edit was applied
+  const handleEditMessage = (messageId: string, newContent: string, mode: EditMode): boolean => {
+    const conversation = conversations.find(c => c.id === currentConversationId);
+    const original = conversation?.messages.find(m => m.id === messageId);
+    if (!conversation || !original) return false;
 
-      for await (const chunk of aiService.generateStreamingResponse(messagesForApi)) {
-        if (stopStreamingRef.current) break;
-        fullResponse += chunk;
-        setStreamingMessage(prev => (prev ? { ...prev, content: fullResponse } : null));
-      }
+    // Typo fixes on a question rewrite it in place and leave the replies alone
+    if (mode === 'save-only' && original.role === 'user') {
+      setConversations(prev => prev.map(conv => conv.id === conversation.id ? {
+        ...conv,
+        messages: conv.messages.map(msg => msg.id === messageId ? { ...msg, content: newContent } : msg),
+        updatedAt: new Date(),
+      } : conv));
+      return true;
+    }
 
-      const finalAssistantMessage: Message = { ...assistantMessage, content: fullResponse };
-      
-      setConversations(prev => prev.map(conv =>
-        conv.id === conversationToUpdate.id
-          ? { ...conv, messages: [...conv.messages, finalAssistantMessage], updatedAt: new Date() }
-          : conv
-      ));
-    } catch (error) {
-      console.error('Error sending message:', error);
-      const errorMessage: Message = { id: generateId(), content: `Sorry, an error occurred. Error: ${error instanceof Error ? error.message : 'Unknown error'}`, role: 'assistant', timestamp: new Date() };
-      setConversations(prev => prev.map(conv =>
-        conv.id === conversationToUpdate.id
-          ? { ...conv, messages: [...conv.messages, errorMessage] }
-          : conv
-      ));
-    } finally {
-      setStreamingMessage(null);
-      setIsChatLoading(false);
-      stopStreamingRef.current = false;
+    if (mode === 'resend' && streamingMessages[conversation.id]) {
+      alert('Please wait for the current response to finish.');
+      return false;
     }
-  };
 
-  const handleEditMessage = (messageId: string, newContent: string) => {
-    setConversations(prev => prev.map(conv => {
-      if (conv.id === currentConversationId) {
-        return {
-          ...conv,
-          messages: conv.messages.map(msg =>
-            msg.id === messageId ? { ...msg, content: newContent } : msg
-          ),
-          updatedAt: new Date(),
-        };
-      }
-      return conv;
-    }));
+    // Otherwise the new version becomes a sibling branch and the original stays reachable
+    const edited: Message = { ...original, id: generateId(), content: newContent, timestamp: new Date() };
+    const updatedConversation = appendMessage(conversation, edited);
+    setConversations(prev => prev.map(conv => conv.id === conversation.id ? updatedConversation : conv));
+
+    if (mode === 'resend' && original.role === 'user') {
+      streamAssistantReply(updatedConversation, getActivePath(updatedConversation));
+    }
+    return true;
   };
 
   const handleRegenerateResponse = async (messageId: string) => {
     const conversation = conversations.find(c => c.id === currentConversationId);
-    if (!conversation) return;
+    if (!conversation || streamingMessages[conversation.id]) return;
 
-    const messageIndex = conversation.messages.findIndex(m => m.id === messageId);
-    if (messageIndex === -1 || conversation.messages[messageIndex].role !== 'assistant') return;
+    const path = getActivePath(conversation);
+    const messageIndex = path.findIndex(m => m.id === messageId);
+    if (messageIndex === -1 || path[messageIndex].role !== 'assistant') return;
 
-    const history = conversation.messages.slice(0, messageIndex);
+    const history = path.slice(0, messageIndex);
     if (history.length === 0 || history[history.length - 1].role !== 'user') {
         console.error("Cannot regenerate without a preceding user message.");
         return;
     }
-    const messagesForApi = history.map(m => ({ role: m.role, content: m.content }));
 
-    setConversations(prev => prev.map(conv => {
-        if (conv.id === currentConversationId) {
-            return { ...conv, messages: history, updatedAt: new Date() };
-        }
-        return conv;
-    }));
+    // The previous reply stays in the tree as a sibling of the new one
+    setConversations(prev => prev.map(conv =>
+      conv.id === conversation.id ? { ...conv, activeLeafId: history[history.length - 1].id } : conv
+    ));
 
-    setIsChatLoading(true);
-    stopStreamingRef.current = false;
+    await streamAssistantReply(conversation, history);
+  };
 
-    try {
-        const assistantMessage: Message = { id: generateId(), content: '', role: 'assistant', timestamp: new Date(), model: settings.selectedModel };
-        setStreamingMessage(assistantMessage);
-
-        let fullResponse = '';
-        for await (const chunk of aiService.generateStreamingResponse(messagesForApi)) {
-            if (stopStreamingRef.current) break;
-            fullResponse += chunk;
-            setStreamingMessage(prev => prev ? { ...prev, content: fullResponse } : null);
-        }
+  const handleRetryReply = async () => {
+    const conversation = conversations.find(c => c.id === currentConversationId);
+    if (!conversation || streamingMessages[conversation.id]) return;
 
-        const finalAssistantMessage: Message = { ...assistantMessage, content: fullResponse };
-        
-        setConversations(prev => prev.map(conv => 
-            conv.id === currentConversationId 
-            ? { ...conv, messages: [...history, finalAssistantMessage], updatedAt: new Date() } 
-            : conv
-        ));
-    } catch (error) {
-        console.error('Error regenerating response:', error);
-        const errorMessage: Message = { id: generateId(), content: `Sorry, an error occurred while regenerating. Error: ${error instanceof Error ? error.message : 'Unknown error'}`, role: 'assistant', timestamp: new Date() };
-        setConversations(prev => prev.map(conv => 
-            conv.id === currentConversationId 
-            ? { ...conv, messages: [...history, errorMessage] } 
-            : conv
-        ));
-    } finally {
-        setStreamingMessage(null);
-        setIsChatLoading(false);
-        stopStreamingRef.current = false;
-    }
+    const path = getActivePath(conversation);
+    const last = path[path.length - 1];
+    if (!last) return;
+    // A reply that broke off is regenerated as a sibling; otherwise answer the open question
+    if (last.role === 'assistant') await handleRegenerateResponse(last.id);
+    else await streamAssistantReply(conversation, path);
+  };
+
+  const handleDismissReplyError = (conversationId: string) => {
+    setReplyErrors(prev => {
+      if (!prev[conversationId]) return prev;
+      const rest = { ...prev };
+      delete rest[conversationId];
+      return rest;
+    });
+  };
+
+  // Applies to the open conversation only; the settings hold the defaults for new chats
+  const handleChangeProfile = (changes: ChatProfile) => {
+    setConversations(prev => prev.map(conv => conv.id === currentConversationId ? { ...conv, ...changes } : conv));
+  };
+
+  const handleSwitchBranch = (messageId: string) => {
+    setConversations(prev => prev.map(conv =>
+      conv.id === currentConversationId ? { ...conv, activeLeafId: getLatestLeafId(conv, messageId) } : conv
+    ));
   };
   
+  // Opens a search hit, switching to the branch that holds the message if needed
+  const handleOpenSearchResult = (conversationId: string, messageId: string) => {
+    setConversations(prev => prev.map(conv =>
+      conv.id === conversationId && !getActivePath(conv).some(m => m.id === messageId)
+        ? { ...conv, activeLeafId: getLatestLeafId(conv, messageId) }
+        : conv
+    ));
+    handleSelectConversation(conversationId);
+    setHighlightedMessageId(messageId);
+  };
+
+  const handleOpenNoteSource = (note: Note) => {
+    if (!note.sourceConversationId) return;
+    const source = conversations.find(c => c.id === note.sourceConversationId);
+    // The message may have been removed since, e.g. by a restored backup
+    if (source?.messages.some(m => m.id === note.sourceMessageId)) handleOpenSearchResult(source.id, note.sourceMessageId!);
+    else handleSelectConversation(note.sourceConversationId);
+  };
+
+  // The highlight only lasts for the flash animation
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timeoutId = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timeoutId);
+  }, [highlightedMessageId]);
+
   const sortedConversations = useMemo(() => [...conversations].sort((a, b) => {
     if (a.isPinned && !b.isPinned) return -1;
     if (!a.isPinned && b.isPinned) return 1;
@@ -299,19 +544,20 @@ function App() {
   }), [conversations]);
 
   const handleDeleteConversation = (id: string) => {
-    const remaining = conversations.filter(c => c.id !== id);
-    setConversations(remaining);
-    if (currentConversationId === id) {
-      const newId = remaining.length > 0 ? sortedConversations.filter(c => c.id !== id)[0]?.id : null;
-      setCurrentConversationId(newId);
-      if (!newId) setActiveView('chat');
-    }
+    handleDeleteItems('conversation', [id]);
   };
   
   // --- NOTE & QUIZ HANDLERS (no changes) ...
 
-    const handleSaveAsNote = (content: string) => {
+  const handleSaveAsNote = (message: Message, noteId?: string) => {
     if (!currentConversationId) return;
+    const { content } = message;
+    const target = noteId ? notes.find(n => n.id === noteId) : undefined;
+    if (target) {
+      handleUpdateNote(target.id, { content: target.content.trim() ? `${target.content.trimEnd()}\n\n---\n\n${content}` : content });
+      alert(`Added to "${target.title}"`);
+      return;
+    }
     const newNote: Note = {
       id: generateId(), 
       title: generateConversationTitle(content), 
@@ -319,49 +565,342 @@ function App() {
       createdAt: new Date(), 
       updatedAt: new Date(), 
       sourceConversationId: currentConversationId,
+      sourceMessageId: message.id,
     };
     setNotes(prev => [newNote, ...prev]);
     alert("Note saved!");
   };
 
+  const handleCreateNote = () => {
+    const now = new Date();
+    const newNote: Note = { id: generateId(), title: 'Untitled note', content: '', createdAt: now, updatedAt: now };
+    setNotes(prev => [newNote, ...prev]);
+    handleSelectNote(newNote.id);
+  };
+
+  const handleUpdateNote = (id: string, changes: NoteChanges) => {
+    setNotes(prev => prev.map(n => (n.id === id ? { ...n, ...changes, updatedAt: new Date() } : n)));
+  };
+
   const handleDeleteNote = (id: string) => {
-    setNotes(prev => prev.filter(n => n.id !== id));
-    if(currentNoteId === id) {
-      setCurrentNoteId(null);
-      setActiveView('chat');
+    handleDeleteItems('note', [id]);
+  };
+
+  // --- FOLDER HANDLERS ---
+  const handleCreateFolder = (name: string) => {
+    setFolders(prev => [...prev, { id: generateId(), name, createdAt: new Date() }]);
+  };
+
+  const handleRenameFolder = (id: string, name: string) => {
+    setFolders(prev => prev.map(f => (f.id === id ? { ...f, name } : f)));
+  };
+
+  // Deleting a folder keeps its contents; they just become unfiled
+  const handleDeleteFolder = (id: string) => {
+    setFolders(prev => prev.filter(f => f.id !== id));
+    setConversations(prev => prev.map(c => (c.folderId === id ? { ...c, folderId: undefined } : c)));
+    setNotes(prev => prev.map(n => (n.folderId === id ? { ...n, folderId: undefined } : n)));
+  };
+
+  const updateItems = (kind: LibraryItemKind, ids: string[], update: <T extends Conversation | Note>(item: T) => T) => {
+    const idSet = new Set(ids);
+    if (kind === 'conversation') setConversations(prev => prev.map(c => (idSet.has(c.id) ? update(c) : c)));
+    else setNotes(prev => prev.map(n => (idSet.has(n.id) ? update(n) : n)));
+  };
+
+  const handleMoveItems = (kind: LibraryItemKind, ids: string[], folderId: string | null) => {
+    updateItems(kind, ids, item => ({ ...item, folderId: folderId ?? undefined }));
+  };
+
+  const handleTagItems = (kind: LibraryItemKind, ids: string[], add: string[], remove: string[]) => {
+    const added = add.map(normalizeTag).filter(Boolean);
+    const removed = new Set(remove.map(normalizeTag));
+    updateItems(kind, ids, item => {
+      const tags = Array.from(new Set([...(item.tags ?? []), ...added])).filter(tag => !removed.has(tag));
+      return { ...item, tags: tags.length > 0 ? tags : undefined };
+    });
+  };
+
+  const handleDeleteItems = (kind: LibraryItemKind, ids: string[]) => {
+    const idSet = new Set(ids);
+    if (kind === 'note') {
+      setNotes(prev => prev.filter(n => !idSet.has(n.id)));
+      if (currentNoteId && idSet.has(currentNoteId)) {
+        setCurrentNoteId(null);
+        setActiveView('chat');
+      }
+      return;
+    }
+    // Notes saved from these chats outlive them, so ask what happens to their links first
+    if (notes.some(n => n.sourceConversationId && idSet.has(n.sourceConversationId))) {
+      setPendingConversationDelete(ids);
+      return;
     }
+    deleteConversations(ids);
   };
 
-  const handleGenerateQuiz = async () => {
+  const deleteConversations = (ids: string[], detachNotes = false) => {
+    const idSet = new Set(ids);
+    ids.forEach(id => {
+      abortControllersRef.current.get(id)?.abort();
+      handleDismissReplyError(id);
+    });
+    setConversations(prev => prev.filter(c => !idSet.has(c.id)));
+    if (detachNotes) {
+      setNotes(prev => prev.map(n => (n.sourceConversationId && idSet.has(n.sourceConversationId)
+        ? { ...n, sourceConversationId: undefined, sourceMessageId: undefined }
+        : n)));
+    }
+    if (currentConversationId && idSet.has(currentConversationId)) {
+      const newId = sortedConversations.find(c => !idSet.has(c.id))?.id ?? null;
+      setCurrentConversationId(newId);
+      if (!newId) setActiveView('chat');
+    }
+  };
+
+  const handleExportItems = (kind: LibraryItemKind, ids: string[], format: ExportFormat) => {
+    const idSet = new Set(ids);
+    const items = kind === 'conversation' ? conversations.filter(c => idSet.has(c.id)) : notes.filter(n => idSet.has(n.id));
+    if (items.length === 0) return;
+    const options = { folders, modelName: (id: ModelId) => getModelName(id, settings) };
+    if (format === 'print') {
+      if (!openPrintView(kind, items, options)) alert('Allow pop-ups for this site to open the print view.');
+      return;
+    }
+    const file = exportLibraryItems(kind, items, format, options);
+    downloadFile(file.content, file.filename, file.type);
+  };
+
+  const handleGenerateQuiz = async (options: QuizOptions) => {
     const conversation = conversations.find(c => c.id === currentConversationId);
     if (!conversation) return;
 
+    setIsQuizSetupOpen(false);
+    const newSettings = { ...settings, quizOptions: options };
+    setSettings(newSettings);
+    storageUtils.saveSettings(newSettings);
+
+    const controller = new AbortController();
+    quizAbortControllerRef.current = controller;
     setIsQuizLoading(true);
     try {
-      const session = await aiService.generateQuiz(conversation);
-      setStudySession(session);
+      const session = await aiService.generateQuiz(conversation, options, controller.signal);
+      setQuizzes(prev => [session, ...prev]);
+      setCurrentQuizId(session.id);
       setIsQuizModalOpen(true);
     } catch (error) {
+      if (controller.signal.aborted) return;
       console.error(error);
       alert(error instanceof Error ? error.message : 'Failed to generate quiz.');
     } finally {
+      if (quizAbortControllerRef.current === controller) quizAbortControllerRef.current = null;
       setIsQuizLoading(false);
     }
   };
 
+  const handleOpenQuiz = (id: string) => {
+    setCurrentQuizId(id);
+    setIsQuizModalOpen(true);
+    if (window.innerWidth < 1024) setSidebarOpen(false);
+  };
+
+  const handleSaveQuizAttempt = (quizId: string, attempt: QuizAttempt) => {
+    setQuizzes(prev => prev.map(quiz => quiz.id === quizId ? {
+      ...quiz,
+      attempts: [...quiz.attempts, attempt],
+      score: attempt.score,
+      isCompleted: quiz.isCompleted || !!attempt.completedAt,
+    } : quiz));
+  };
+
+  const handleGradeShortAnswer = (question: Extract<QuizQuestion, { type: 'short-answer' }>, answer: string, signal: AbortSignal) => {
+    const conversation = conversations.find(c => c.id === currentQuiz?.conversationId);
+    return aiService.gradeShortAnswer(question, answer, conversation, signal);
+  };
+
+  const handleDeleteQuiz = (id: string) => {
+    setQuizzes(prev => prev.filter(q => q.id !== id));
+  };
+
+  // --- FLASHCARD HANDLERS ---
+  const handleOpenReview = () => {
+    quizAbortControllerRef.current?.abort();
+    setActiveView('review');
+    setCurrentConversationId(null);
+    setCurrentNoteId(null);
+    if (window.innerWidth < 1024) setSidebarOpen(false);
+  };
+
+  // Cards go into their source's deck, which is created on first use and named after it.
+  // Pressing the button again while cards are being made cancels them.
+  const handleGenerateFlashcards = async (source: Conversation | Note) => {
+    if (flashcardsAbortControllerRef.current) {
+      flashcardsAbortControllerRef.current.abort();
+      return;
+    }
+    const controller = new AbortController();
+    flashcardsAbortControllerRef.current = controller;
+    setIsFlashcardsLoading(true);
+    try {
+      const drafts = await aiService.generateFlashcards(source, controller.signal);
+      const isConversation = 'messages' in source;
+      const isFromSource = (card: Flashcard) => (isConversation ? card.sourceConversationId === source.id && !card.sourceNoteId : card.sourceNoteId === source.id);
+      // Decks made before they recorded their source are found by their cards
+      const existingDeck = decks.find(d => d.sourceId === source.id)
+        ?? decks.find(d => !d.sourceId && flashcards.some(card => card.deckId === d.id && isFromSource(card)));
+      const deck: FlashcardDeck = existingDeck
+        ? { ...existingDeck, sourceId: source.id, updatedAt: new Date() }
+        : { id: generateId(), name: source.title, sourceId: source.id, createdAt: new Date(), updatedAt: new Date() };
+      const sourceFields = isConversation ? { sourceConversationId: source.id } : { sourceNoteId: source.id, sourceConversationId: source.sourceConversationId };
+      const cards = drafts.map(draft => createFlashcard({ deckId: deck.id, ...draft, ...sourceFields }));
+
+      setDecks(prev => (existingDeck ? prev.map(d => (d.id === deck.id ? deck : d)) : [deck, ...prev]));
+      setFlashcards(prev => [...prev, ...cards]);
+      alert(`Added ${cards.length} flashcards to "${deck.name}".`);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error(error);
+      alert(error instanceof Error ? error.message : 'Failed to generate flashcards.');
+    } finally {
+      if (flashcardsAbortControllerRef.current === controller) flashcardsAbortControllerRef.current = null;
+      setIsFlashcardsLoading(false);
+    }
+  };
+
+  const handleGenerateFlashcardsFromChat = () => {
+    const conversation = conversations.find(c => c.id === currentConversationId);
+    if (conversation) handleGenerateFlashcards(conversation);
+  };
+
+  const handleGenerateFlashcardsFromNote = (noteId: string) => {
+    const note = notes.find(n => n.id === noteId);
+    if (note) handleGenerateFlashcards(note);
+  };
+
+  const handleReviewFlashcard = (cardId: string, grade: ReviewGrade) => {
+    setFlashcards(prev => prev.map(card => (card.id === cardId ? scheduleReview(card, grade) : card)));
+  };
+
+  const handleDeleteFlashcard = (cardId: string) => {
+    setFlashcards(prev => prev.filter(card => card.id !== cardId));
+  };
+
+  const handleDeleteDeck = (deckId: string) => {
+    setDecks(prev => prev.filter(d => d.id !== deckId));
+    setFlashcards(prev => prev.filter(card => card.deckId !== deckId));
+  };
+
   // --- OTHER HANDLERS ---
-  const handleModelChange = (model: 'google' | 'zhipu' | 'mistral-small' | 'mistral-codestral') => {
+  const handleModelChange = (model: ModelId) => {
     const newSettings = { ...settings, selectedModel: model };
     setSettings(newSettings);
     storageUtils.saveSettings(newSettings);
   };
   const handleRenameConversation = (id: string, newTitle: string) => setConversations(prev => prev.map(c => (c.id === id ? { ...c, title: newTitle, updatedAt: new Date() } : c)));
   const handleTogglePinConversation = (id: string) => setConversations(prev => prev.map(c => (c.id === id ? { ...c, isPinned: !c.isPinned, updatedAt: new Date() } : c)));
-  const handleSaveSettings = (newSettings: APISettings) => { setSettings(newSettings); storageUtils.saveSettings(newSettings); setSettingsOpen(false); };
+  // Removed custom endpoints and personas must not stay selected
+  const applySettings = (newSettings: APISettings) => {
+    const checkedSettings = {
+      ...newSettings,
+      selectedModel: getProvider(newSettings.selectedModel, newSettings) ? newSettings.selectedModel : DEFAULT_MODEL_ID,
+      fallbackModels: newSettings.fallbackModels.filter(id => getProvider(id, newSettings)),
+      selectedTutorMode: getPersona(newSettings.selectedTutorMode, newSettings).id,
+    };
+    // Keys cannot be sealed while the vault is locked, so none are accepted then
+    const validSettings = keyVault.getStatus() === 'locked' ? lockApiKeys(checkedSettings, keyVault.getLockedEndpointIds()) : checkedSettings;
+    setSettings(validSettings);
+    storageUtils.saveSettings(validSettings);
+    if (keyVault.isUnlocked()) {
+      keyVault.seal(validSettings).catch(error => {
+        console.error('Error encrypting API keys:', error);
+        alert('Failed to save the encrypted API keys.');
+      });
+    }
+  };
+
+  const handleSaveSettings = (newSettings: APISettings) => {
+    applySettings(newSettings);
+    setSettingsOpen(false);
+  };
+
+  // Called before an import or its undo reads and rewrites IndexedDB: stops every reply
+  // and saves what arrived so far, so nothing is written into the replaced data later
+  const handleBeforeDataReplaced = async () => {
+    abortControllersRef.current.forEach(controller => controller.abort());
+    flashcardsAbortControllerRef.current?.abort();
+    await Promise.allSettled(replyTasksRef.current);
+    const latest = await new Promise<Conversation[]>(resolve => setConversations(prev => {
+      resolve(prev);
+      return prev;
+    }));
+    await storageUtils.syncConversations(persistedConversationsRef.current, latest);
+    persistedConversationsRef.current = latest;
+  };
+
+  // Called once an import or its undo has rewritten IndexedDB
+  const handleDataReplaced = async (importedSettings?: APISettings) => {
+    setStreamingMessages({});
+    setReplyErrors({});
+    // Keys the imported settings lack stay as they are
+    if (importedSettings) applySettings(withApiKeys(importedSettings, extractApiKeys(settings)));
+    await loadStoredData();
+  };
+
+  // --- KEY VAULT HANDLERS ---
+  const handleUnlockKeys = async (passphrase: string) => {
+    const keys = await keyVault.unlock(passphrase);
+    setSettings(prev => withApiKeys(prev, keys));
+    setKeyVaultStatus('unlocked');
+    setIsUnlockPromptOpen(false);
+  };
+
+  const handleLockKeys = () => {
+    keyVault.lock();
+    setSettings(prev => lockApiKeys(prev, keyVault.getLockedEndpointIds()));
+    setKeyVaultStatus('locked');
+  };
+
+  const handleEnableKeyEncryption = async (passphrase: string, newSettings: APISettings) => {
+    await keyVault.enable(passphrase, newSettings);
+    applySettings(newSettings);
+    setKeyVaultStatus('unlocked');
+  };
+
+  const handleDisableKeyEncryption = (newSettings: APISettings) => {
+    if (!window.confirm('Store the API keys unencrypted? Anyone using this browser will be able to read them.')) return;
+    keyVault.disable();
+    applySettings(newSettings);
+    setKeyVaultStatus('off');
+  };
+
+  // The only way out of a forgotten passphrase: the keys have to be entered again
+  const handleForgetKeys = () => {
+    if (!window.confirm('Remove the encrypted API keys? You will need to enter them again in the settings.')) return;
+    keyVault.disable();
+    applySettings(withoutApiKeys(settings));
+    setKeyVaultStatus('off');
+    setIsUnlockPromptOpen(false);
+  };
   const handleInstallApp = async () => { if (await installApp()) console.log('App installed'); };
-  const handleStopGenerating = () => stopStreamingRef.current = true;
+  const handleStopGenerating = () => {
+    if (currentConversationId) abortControllersRef.current.get(currentConversationId)?.abort();
+  };
 
+  const generatingConversationIds = useMemo(() => new Set(Object.keys(streamingMessages)), [streamingMessages]);
+  const sortedQuizzes = useMemo(() => [...quizzes].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()), [quizzes]);
+  const sortedDecks = useMemo(() => [...decks].sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()), [decks]);
+  const dueFlashcardCount = useMemo(() => flashcards.filter(card => isDue(card)).length, [flashcards]);
   const sortedNotes = useMemo(() => [...notes].sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()), [notes]);
+  // Offered as targets when saving a reply, so it can be appended instead of starting a new note
+  const notesByMessage = useMemo(() => {
+    const byMessage = new Map<string, { id: string; title: string }[]>();
+    notes.forEach(note => {
+      if (note.sourceConversationId !== currentConversationId || !note.sourceMessageId) return;
+      byMessage.set(note.sourceMessageId, [...(byMessage.get(note.sourceMessageId) ?? []), { id: note.id, title: note.title }]);
+    });
+    return byMessage;
+  }, [notes, currentConversationId]);
+  const recentNotes = useMemo(() => sortedNotes.slice(0, 5).map(({ id, title }) => ({ id, title })), [sortedNotes]);
 
   return (
     <ThemeProvider value={{ theme: effectiveTheme, logoSrc }}>
@@ -371,17 +910,35 @@ function App() {
         )}
         <Sidebar
           conversations={sortedConversations}
+          generatingConversationIds={generatingConversationIds}
           notes={sortedNotes}
+          quizzes={sortedQuizzes}
           activeView={activeView}
           currentConversationId={currentConversationId}
           currentNoteId={currentNoteId}
           onNewConversation={handleNewConversation}
           onSelectConversation={handleSelectConversation}
           onSelectNote={handleSelectNote}
+          onOpenSearchResult={handleOpenSearchResult}
           onDeleteConversation={handleDeleteConversation}
           onRenameConversation={handleRenameConversation}
           onTogglePinConversation={handleTogglePinConversation}
           onDeleteNote={handleDeleteNote}
+          onNewNote={handleCreateNote}
+          folders={folders}
+          onCreateFolder={handleCreateFolder}
+          onRenameFolder={handleRenameFolder}
+          onDeleteFolder={handleDeleteFolder}
+          onMoveItems={handleMoveItems}
+          onTagItems={handleTagItems}
+          onDeleteItems={handleDeleteItems}
+          onExportItems={handleExportItems}
+          onOpenQuiz={handleOpenQuiz}
+          onDeleteQuiz={handleDeleteQuiz}
+          dueFlashcardCount={dueFlashcardCount}
+          onOpenReview={handleOpenReview}
+          onGenerateFlashcardsFromNote={handleGenerateFlashcardsFromNote}
+          isFlashcardsLoading={isFlashcardsLoading}
           onOpenSettings={() => setSettingsOpen(true)}
           settings={settings}
           onModelChange={handleModelChange}
@@ -391,6 +948,15 @@ function App() {
           isSidebarOpen={sidebarOpen}
         />
         <div className="main-content">
+          {storageError && (
+            <div className="storage-error-banner" role="alert">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              <span className="flex-1">{storageError}</span>
+              <button onClick={() => setStorageError(null)} className="p-1 rounded hover:bg-red-200/60 dark:hover:bg-red-900/40" aria-label="Dismiss">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )}
           {!sidebarOpen && (
             <button 
               onClick={() => setSidebarOpen(true)} 
@@ -404,19 +970,53 @@ function App() {
           {activeView === 'chat' ? (
             <ChatArea
               conversation={currentConversation}
+              settings={settings}
+              contextUsage={contextUsage}
               onSendMessage={handleSendMessage}
-              isLoading={isChatLoading}
+              isLoading={!!(currentConversationId && streamingMessages[currentConversationId])}
               isQuizLoading={isQuizLoading}
-              streamingMessage={streamingMessage}
+              streamingMessage={currentConversationId ? streamingMessages[currentConversationId] : null}
               hasApiKey={hasApiKey}
               onStopGenerating={handleStopGenerating}
               onSaveAsNote={handleSaveAsNote}
-              onGenerateQuiz={handleGenerateQuiz}
+              recentNotes={recentNotes}
+              notesByMessage={notesByMessage}
+              onExport={(format) => currentConversationId && handleExportItems('conversation', [currentConversationId], format)}
+              onOpenNote={handleSelectNote}
+              onGenerateQuiz={() => setIsQuizSetupOpen(true)}
+              isFlashcardsLoading={isFlashcardsLoading}
+              onGenerateFlashcards={handleGenerateFlashcardsFromChat}
               onEditMessage={handleEditMessage}
               onRegenerateResponse={handleRegenerateResponse}
+              onSwitchBranch={handleSwitchBranch}
+              onChangeProfile={handleChangeProfile}
+              replyError={currentConversationId ? replyErrors[currentConversationId] ?? null : null}
+              onRetryReply={handleRetryReply}
+              onDismissReplyError={() => currentConversationId && handleDismissReplyError(currentConversationId)}
+              highlightedMessageId={highlightedMessageId}
+            />
+          ) : activeView === 'review' ? (
+            <FlashcardReview
+              decks={sortedDecks}
+              flashcards={flashcards}
+              conversations={conversations}
+              notes={notes}
+              onReview={handleReviewFlashcard}
+              onDeleteDeck={handleDeleteDeck}
+              onDeleteCard={handleDeleteFlashcard}
+              onOpenConversation={handleSelectConversation}
+              onOpenNote={handleSelectNote}
             />
           ) : (
-            <NoteView note={currentNote} />
+            <NoteView
+              key={currentNote?.id}
+              note={currentNote ?? null}
+              sourceConversation={currentNote?.sourceConversationId ? conversations.find(c => c.id === currentNote.sourceConversationId) : undefined}
+              onUpdateNote={handleUpdateNote}
+              onCreateNote={handleCreateNote}
+              onOpenSource={handleOpenNoteSource}
+              onExport={(format) => currentNote && handleExportItems('note', [currentNote.id], format)}
+            />
           )}
         </div>
         <SettingsModal 
@@ -424,12 +1024,41 @@ function App() {
           onClose={() => setSettingsOpen(false)} 
           settings={settings} 
           onSaveSettings={handleSaveSettings} 
+          onBeforeDataReplaced={handleBeforeDataReplaced}
+          onDataReplaced={handleDataReplaced}
+          keyVaultStatus={keyVaultStatus}
+          onEnableKeyEncryption={handleEnableKeyEncryption}
+          onDisableKeyEncryption={handleDisableKeyEncryption}
+          onLockKeys={handleLockKeys}
+          onUnlockKeys={() => setIsUnlockPromptOpen(true)}
         />
         <QuizModal 
           isOpen={isQuizModalOpen} 
           onClose={() => setIsQuizModalOpen(false)} 
-          session={studySession} 
+          session={currentQuiz}
+          onSaveAttempt={handleSaveQuizAttempt} 
+          onGradeShortAnswer={handleGradeShortAnswer}
         />
+        <QuizSetupModal
+          isOpen={isQuizSetupOpen}
+          initialOptions={settings.quizOptions}
+          onClose={() => setIsQuizSetupOpen(false)}
+          onGenerate={handleGenerateQuiz}
+        />
+        {pendingConversationDelete && (
+          <DeleteConversationModal
+            conversationCount={pendingConversationDelete.length}
+            noteCount={notes.filter(n => n.sourceConversationId && pendingConversationDelete.includes(n.sourceConversationId)).length}
+            onCancel={() => setPendingConversationDelete(null)}
+            onDelete={(detachNotes) => {
+              deleteConversations(pendingConversationDelete, detachNotes);
+              setPendingConversationDelete(null);
+            }}
+          />
+        )}
+        {isUnlockPromptOpen && keyVaultStatus === 'locked' && (
+          <UnlockModal onUnlock={handleUnlockKeys} onSkip={() => setIsUnlockPromptOpen(false)} onForget={handleForgetKeys} />
+        )}
         {isInstallable && !isInstalled && ( <InstallPrompt onInstall={handleInstallApp} onDismiss={dismissInstallPrompt} /> )}
       </div>
     </ThemeProvider>
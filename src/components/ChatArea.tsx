@@ -1,27 +1,51 @@
 import React, { useEffect, useRef, useCallback, useMemo } from 'react';
-import { MessageBubble } from './MessageBubble';
+import { MessageBubble, NoteTarget } from './MessageBubble';
 import { ChatInput } from './ChatInput';
-import { Conversation, Message } from '../types';
+import { ChatHeader } from './ChatHeader';
+import { ReplyErrorBubble } from './ReplyErrorBubble';
+import { APISettings, Conversation, EditMode, Message, ReplyError } from '../types';
 import { useTheme } from '../context/ThemeContext'; // Import the hook
+import { DEFAULT_MODEL_ID, getModelName, getProvider, listProviders } from '../services/providers';
+import { listPersonas } from '../services/personas';
+import { ChatProfile, resolvePersona, resolveProvider } from '../services/aiService';
+import { getActivePath, getSiblings } from '../utils/messageTree';
+import { ContextUsage } from '../services/contextWindow';
+import { ExportFormat } from '../utils/export';
 
 // ... (interface props remain the same)
 interface ChatAreaProps {
   conversation: Conversation | undefined;
+  settings: APISettings;
+  contextUsage: ContextUsage | null;
   onSendMessage: (message: string) => void;
   isLoading: boolean;
   isQuizLoading: boolean;
   streamingMessage?: Message | null;
   hasApiKey: boolean;
   onStopGenerating: () => void;
-  onSaveAsNote: (content: string) => void;
+  onSaveAsNote: (message: Message, noteId?: string) => void;
+  recentNotes?: NoteTarget[];
+  notesByMessage?: Map<string, NoteTarget[]>; // Notes saved from each message of this chat
+  onOpenNote?: (noteId: string) => void;
   onGenerateQuiz: () => void;
-  onEditMessage?: (messageId: string, newContent: string) => void;
+  isFlashcardsLoading?: boolean;
+  onGenerateFlashcards?: () => void;
+  onEditMessage?: (messageId: string, newContent: string, mode: EditMode) => boolean; // False when the edit was refused
   onRegenerateResponse?: (messageId: string) => void;
+  onSwitchBranch?: (messageId: string) => void;
+  onChangeProfile?: (changes: ChatProfile) => void;
+  onExport?: (format: ExportFormat) => void;
+  replyError?: ReplyError | null;
+  onRetryReply?: () => void;
+  onDismissReplyError?: () => void;
+  highlightedMessageId?: string | null; // Scrolled to and flashed, e.g. after a search
 }
 
 
 export function ChatArea({
   conversation,
+  settings,
+  contextUsage,
   onSendMessage,
   isLoading,
   isQuizLoading,
@@ -29,29 +53,59 @@ export function ChatArea({
   hasApiKey,
   onStopGenerating,
   onSaveAsNote,
+  recentNotes,
+  notesByMessage,
+  onOpenNote,
   onGenerateQuiz,
+  isFlashcardsLoading,
+  onGenerateFlashcards,
   onEditMessage,
   onRegenerateResponse,
+  onSwitchBranch,
+  onChangeProfile,
+  onExport,
+  replyError,
+  onRetryReply,
+  onDismissReplyError,
+  highlightedMessageId,
 }: ChatAreaProps) {
   const { logoSrc } = useTheme(); // Get logoSrc from context
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatMessagesRef = useRef<HTMLDivElement>(null);
 
+  const activePath = useMemo(() => (conversation ? getActivePath(conversation) : []), [conversation]);
+
   const allMessages = useMemo(() =>
-    streamingMessage ? [...(conversation?.messages || []), streamingMessage] : conversation?.messages || [],
-    [conversation?.messages, streamingMessage]
+    streamingMessage ? [...activePath, streamingMessage] : activePath,
+    [activePath, streamingMessage]
   );
 
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, []);
 
+  // Read through a ref, so clearing the highlight does not scroll to the bottom
+  const highlightedMessageIdRef = useRef(highlightedMessageId);
+  highlightedMessageIdRef.current = highlightedMessageId;
+
   useEffect(() => {
+    // A highlighted message keeps the view where it is
+    if (highlightedMessageIdRef.current) return;
     const timeoutId = setTimeout(scrollToBottom, 100);
     return () => clearTimeout(timeoutId);
-  }, [allMessages.length, streamingMessage?.content, scrollToBottom]);
+  }, [allMessages.length, streamingMessage?.content, replyError, scrollToBottom]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timeoutId = setTimeout(() => {
+      chatMessagesRef.current
+        ?.querySelector(`[data-message-id="${highlightedMessageId}"]`)
+        ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 100);
+    return () => clearTimeout(timeoutId);
+  }, [highlightedMessageId, conversation?.id]);
 
-  const canGenerateQuiz = conversation && conversation.messages.length > 2;
+  const canGenerateQuiz = conversation && activePath.length > 2;
 
   if (!conversation) {
     return (
@@ -88,6 +142,16 @@ export function ChatArea({
   // ... rest of the component is unchanged
   return (
     <div className="chat-area">
+      <ChatHeader
+        title={conversation.title}
+        contextUsage={contextUsage}
+        personas={listPersonas(settings)}
+        models={listProviders(settings)}
+        tutorMode={resolvePersona(conversation, settings).id}
+        model={resolveProvider(conversation, settings)?.id}
+        onChangeProfile={onChangeProfile}
+        onExport={onExport}
+      />
       <div
         ref={chatMessagesRef}
         className="chat-messages scroll-container"
@@ -98,12 +162,26 @@ export function ChatArea({
               <MessageBubble
                 key={message.id}
                 message={message}
+                modelName={message.model ? getModelName(message.model, settings) ?? getProvider(DEFAULT_MODEL_ID)?.nickname : undefined}
                 isStreaming={streamingMessage?.id === message.id}
+                isHighlighted={highlightedMessageId === message.id}
+                branchIds={message === streamingMessage ? undefined : getSiblings(conversation, message).map(m => m.id)}
+                onSwitchBranch={onSwitchBranch}
                 onSaveAsNote={onSaveAsNote}
+                noteTargets={recentNotes}
+                savedNotes={notesByMessage?.get(message.id)}
+                onOpenNote={onOpenNote}
                 onEditMessage={onEditMessage}
                 onRegenerateResponse={onRegenerateResponse}
               />
             ))}
+            {replyError && !streamingMessage && (
+              <ReplyErrorBubble
+                error={replyError}
+                onRetry={() => onRetryReply?.()}
+                onDismiss={() => onDismissReplyError?.()}
+              />
+            )}
           </div>
           <div ref={messagesEndRef} className="h-1 flex-shrink-0" />
         </div>
@@ -118,6 +196,8 @@ export function ChatArea({
           onStopGenerating={onStopGenerating}
           onGenerateQuiz={onGenerateQuiz}
           canGenerateQuiz={!!canGenerateQuiz}
+          isFlashcardsLoading={isFlashcardsLoading}
+          onGenerateFlashcards={onGenerateFlashcards}
         />
       </div>
     </div>
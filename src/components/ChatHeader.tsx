@@ -0,0 +1,88 @@
+import { Layers } from 'lucide-react';
+import { ContextUsage } from '../services/contextWindow';
+import { ModelProvider } from '../services/providers';
+import { ChatProfile } from '../services/aiService';
+import { ModelId, Persona, TutorMode } from '../types';
+import { ExportFormat } from '../utils/export';
+import { ExportMenu } from './ExportMenu';
+
+interface ChatHeaderProps {
+  title: string;
+  contextUsage: ContextUsage | null;
+  personas: Persona[];
+  models: ModelProvider[];
+  tutorMode: TutorMode;
+  model?: ModelId;
+  onChangeProfile?: (changes: ChatProfile) => void;
+  onExport?: (format: ExportFormat) => void;
+}
+
+const selectClass = 'max-w-[9rem] truncate px-2 py-1 text-xs rounded-md border border-[var(--color-border)] bg-[var(--color-card)] text-[var(--color-text-primary)] focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+export function ChatHeader({ title, contextUsage, personas, models, tutorMode, model, onChangeProfile, onExport }: ChatHeaderProps) {
+  const handlePersonaChange = (id: TutorMode) => {
+    // Switch to the persona's preferred model too, like picking it in the settings
+    const preferred = personas.find(p => p.id === id)?.preferredModel;
+    onChangeProfile?.({ tutorMode: id, ...(preferred && models.some(m => m.id === preferred) ? { model: preferred } : {}) });
+  };
+
+  const percent = contextUsage ? Math.round((contextUsage.usedTokens / contextUsage.budgetTokens) * 100) : 0;
+  const barColor = percent >= 100 ? 'bg-red-500' : percent >= 75 ? 'bg-yellow-500' : 'bg-blue-500 dark:bg-[var(--color-accent-bg)]';
+
+  return (
+    <div className="chat-header">
+      <h2 className="flex-1 min-w-0 text-sm font-semibold truncate text-[var(--color-text-primary)]">{title}</h2>
+      {onChangeProfile && (
+        <div className="flex items-center gap-1.5 flex-shrink-0">
+          <select
+            value={tutorMode}
+            onChange={(e) => handlePersonaChange(e.target.value)}
+            className={selectClass}
+            title="Tutor persona for this chat"
+            aria-label="Tutor persona for this chat"
+          >
+            {personas.map(p => <option key={p.id} value={p.id}>{p.emoji} {p.name}</option>)}
+          </select>
+          <select
+            value={model ?? ''}
+            onChange={(e) => onChangeProfile({ model: e.target.value })}
+            className={selectClass}
+            title="Model for this chat"
+            aria-label="Model for this chat"
+          >
+            {models.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+          </select>
+        </div>
+      )}
+      {contextUsage && (
+        <div
+          className="flex items-center gap-2 text-xs text-[var(--color-text-secondary)] flex-shrink-0"
+          title={`About ${contextUsage.usedTokens.toLocaleString()} of ${contextUsage.budgetTokens.toLocaleString()} prompt tokens (${contextUsage.contextWindow.toLocaleString()} token window)${
+            percent >= 100 ? '. Older messages will be summarized on the next reply.' : ''
+          }`}
+        >
+          {contextUsage.summarizedCount > 0 && (
+            <span className="hidden sm:inline-flex items-center gap-1">
+              <Layers className="w-3.5 h-3.5" />
+              {contextUsage.summarizedCount} summarized
+            </span>
+          )}
+          <div className="w-20 h-1.5 rounded-full bg-[var(--color-border)] overflow-hidden">
+            <div className={`h-full ${barColor} transition-all duration-300`} style={{ width: `${Math.min(percent, 100)}%` }} />
+          </div>
+          <span className="tabular-nums">{formatTokens(contextUsage.usedTokens)} / {formatTokens(contextUsage.budgetTokens)}</span>
+        </div>
+      )}
+      {onExport && (
+        <ExportMenu
+          onExport={onExport}
+          className="p-1.5 rounded-md text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-card)] transition-colors"
+        />
+      )}
+    </div>
+  );
+}
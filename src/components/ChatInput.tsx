@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Send, PlusCircle, Square, ClipboardCheck, Loader2 } from 'lucide-react';
+import { Send, PlusCircle, Square, ClipboardCheck, Loader2, WalletCards } from 'lucide-react';
 
 interface ChatInputProps {
   onSendMessage: (message: string) => void;
@@ -9,6 +9,8 @@ interface ChatInputProps {
   onStopGenerating: () => void;
   onGenerateQuiz: () => void;
   canGenerateQuiz: boolean;
+  isFlashcardsLoading?: boolean;
+  onGenerateFlashcards?: () => void;
 }
 
 export function ChatInput({
@@ -18,7 +20,9 @@ export function ChatInput({
   disabled = false,
   onStopGenerating,
   onGenerateQuiz,
-  canGenerateQuiz
+  canGenerateQuiz,
+  isFlashcardsLoading = false,
+  onGenerateFlashcards,
 }: ChatInputProps) {
   const [input, setInput] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -149,6 +153,27 @@ export function ChatInput({
             )}
           </button>
 
+          {/* Flashcards button */}
+          {onGenerateFlashcards && (
+            <button
+              type="button"
+              onClick={onGenerateFlashcards}
+              disabled={!isFlashcardsLoading && (!canGenerateQuiz || isLoading)}
+              className={`interactive-button w-9 h-9 flex items-center justify-center rounded-lg transition-all duration-200 ${
+                !isFlashcardsLoading && (!canGenerateQuiz || isLoading)
+                  ? 'bg-transparent text-[var(--color-text-placeholder)] cursor-not-allowed opacity-50'
+                  : 'bg-transparent text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-border)]'
+              }`}
+              title={isFlashcardsLoading ? 'Stop making flashcards' : 'Make Flashcards'}
+            >
+              {isFlashcardsLoading ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <WalletCards className="w-4 h-4" />
+              )}
+            </button>
+          )}
+
           {/* Send button */}
           <button
             type="submit"
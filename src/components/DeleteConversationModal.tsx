@@ -0,0 +1,49 @@
+import { AlertTriangle } from 'lucide-react';
+
+interface DeleteConversationModalProps {
+  conversationCount: number;
+  noteCount: number; // Notes saved from the chats being deleted
+  onCancel: () => void;
+  onDelete: (detachNotes: boolean) => void;
+}
+
+export function DeleteConversationModal({ conversationCount, noteCount, onCancel, onDelete }: DeleteConversationModalProps) {
+  const chats = conversationCount === 1 ? 'this chat' : `these ${conversationCount} chats`;
+  const notes = noteCount === 1 ? '1 note was' : `${noteCount} notes were`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-2 sm:p-4 bg-black/70 backdrop-blur-sm animate-fadeIn">
+      <div
+        className="relative w-full max-w-md bg-[var(--color-sidebar)] border border-[var(--color-border)] rounded-2xl shadow-2xl flex flex-col animate-fade-in-up overflow-hidden"
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="delete-conversation-title"
+      >
+        <div className="p-4 sm:p-6 flex gap-4">
+          <AlertTriangle className="w-6 h-6 flex-shrink-0 text-yellow-500" />
+          <div className="space-y-2">
+            <h2 id="delete-conversation-title" className="text-lg font-bold">
+              Delete {chats}?
+            </h2>
+            <p className="text-sm text-[var(--color-text-secondary)]">
+              {notes} saved from {chats}. The notes themselves are not deleted. You can keep their link to the source,
+              which will show it as deleted, or detach them so they stand on their own.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2 p-4 border-t border-[var(--color-border)] bg-gray-50/50 dark:bg-[var(--color-bg)]/50">
+          <button onClick={onCancel} className="interactive-button px-4 py-2.5 rounded-lg font-bold bg-[var(--color-card)] hover:bg-[var(--color-border)]">
+            Cancel
+          </button>
+          <button onClick={() => onDelete(false)} className="interactive-button px-4 py-2.5 rounded-lg font-bold bg-[var(--color-card)] hover:bg-[var(--color-border)]">
+            Keep links
+          </button>
+          <button onClick={() => onDelete(true)} className="interactive-button px-4 py-2.5 rounded-lg font-bold bg-red-600 hover:bg-red-700 text-white">
+            Detach notes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
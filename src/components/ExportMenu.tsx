@@ -0,0 +1,59 @@
+import { useEffect, useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+import { ExportFormat, exportFormats } from '../utils/export';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+  className?: string; // Classes for the trigger button
+  align?: 'left' | 'right';
+}
+
+export function ExportMenu({ onExport, disabled, className = '', align = 'right' }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  return (
+    <div ref={menuRef} className="relative flex-shrink-0">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        className={className}
+        title="Export"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <Download className="w-3.5 h-3.5" />
+      </button>
+      {isOpen && (
+        <div
+          role="menu"
+          className={`absolute top-full mt-1 ${align === 'right' ? 'right-0' : 'left-0'} w-44 p-1 bg-[var(--color-card)] border border-[var(--color-border)] rounded-lg shadow-lg z-30 text-sm`}
+        >
+          {exportFormats.map(({ format, label }) => (
+            <button
+              key={format}
+              role="menuitem"
+              onClick={() => {
+                setIsOpen(false);
+                onExport(format);
+              }}
+              className="w-full text-left px-2 py-1.5 rounded hover:bg-[var(--color-border)] text-[var(--color-text-primary)]"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
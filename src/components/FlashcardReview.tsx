@@ -0,0 +1,215 @@
+import { useMemo, useState } from 'react';
+import { WalletCards, Trash2, ExternalLink, CheckCircle, Play } from 'lucide-react';
+import { Conversation, Flashcard, FlashcardDeck, Note, ReviewGrade } from '../types';
+import { isDue, previewInterval } from '../utils/spacedRepetition';
+import { formatDate } from '../utils/helpers';
+
+interface FlashcardReviewProps {
+  decks: FlashcardDeck[];
+  flashcards: Flashcard[];
+  conversations: Conversation[];
+  notes: Note[];
+  onReview: (cardId: string, grade: ReviewGrade) => void;
+  onDeleteDeck: (deckId: string) => void;
+  onDeleteCard: (cardId: string) => void;
+  onOpenConversation: (id: string) => void;
+  onOpenNote: (id: string) => void;
+}
+
+const grades: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 'again', label: 'Again', className: 'bg-red-100 text-red-700 hover:bg-red-200 dark:bg-red-900/40 dark:text-red-300 dark:hover:bg-red-900/60' },
+  { grade: 'hard', label: 'Hard', className: 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200 dark:bg-yellow-900/30 dark:text-yellow-300 dark:hover:bg-yellow-900/50' },
+  { grade: 'good', label: 'Good', className: 'bg-green-100 text-green-700 hover:bg-green-200 dark:bg-green-900/40 dark:text-green-300 dark:hover:bg-green-900/60' },
+  { grade: 'easy', label: 'Easy', className: 'bg-blue-100 text-blue-700 hover:bg-blue-200 dark:bg-blue-900/40 dark:text-blue-300 dark:hover:bg-blue-900/60' },
+];
+
+export function FlashcardReview({
+  decks,
+  flashcards,
+  conversations,
+  notes,
+  onReview,
+  onDeleteDeck,
+  onDeleteCard,
+  onOpenConversation,
+  onOpenNote,
+}: FlashcardReviewProps) {
+  // Card ids left in the running session; null while choosing a deck
+  const [queue, setQueue] = useState<string[] | null>(null);
+  const [showBack, setShowBack] = useState(false);
+
+  const dueCards = useMemo(() => flashcards.filter(card => isDue(card)), [flashcards]);
+  const nextDue = useMemo(() => {
+    const upcoming = flashcards.filter(card => !isDue(card)).map(card => new Date(card.dueDate).getTime());
+    return upcoming.length > 0 ? new Date(Math.min(...upcoming)) : null;
+  }, [flashcards]);
+
+  const currentCard = queue && queue.length > 0 ? flashcards.find(c => c.id === queue[0]) : undefined;
+
+  const startReview = (deckId?: string) => {
+    const cards = dueCards
+      .filter(card => !deckId || card.deckId === deckId)
+      .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
+    setQueue(cards.map(card => card.id));
+    setShowBack(false);
+  };
+
+  // --- HANDLERS ---
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!currentCard) return;
+    onReview(currentCard.id, grade);
+    // Forgotten cards come back at the end of this session
+    setQueue(prev => (prev ? [...prev.slice(1), ...(grade === 'again' ? [currentCard.id] : [])] : prev));
+    setShowBack(false);
+  };
+
+  const handleDeleteCard = () => {
+    if (!currentCard || !window.confirm('Delete this flashcard?')) return;
+    onDeleteCard(currentCard.id);
+    setQueue(prev => (prev ? prev.slice(1) : prev));
+    setShowBack(false);
+  };
+
+  const handleDeleteDeck = (deck: FlashcardDeck) => {
+    if (window.confirm(`Delete the deck "${deck.name}" and all of its cards?`)) onDeleteDeck(deck.id);
+  };
+
+  const renderSource = (card: Flashcard) => {
+    const conversation = card.sourceConversationId ? conversations.find(c => c.id === card.sourceConversationId) : undefined;
+    const note = card.sourceNoteId ? notes.find(n => n.id === card.sourceNoteId) : undefined;
+    if (!conversation && !note) return null;
+    return (
+      <button
+        onClick={() => (conversation ? onOpenConversation(conversation.id) : onOpenNote(note!.id))}
+        className="inline-flex items-center gap-1 text-xs text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:underline"
+        title="Open the explanation this card came from"
+      >
+        <ExternalLink className="w-3.5 h-3.5" />
+        {conversation ? conversation.title : note!.title}
+      </button>
+    );
+  };
+
+  if (queue !== null) {
+    if (!currentCard) {
+      return (
+        <div className="flex-1 flex items-center justify-center p-4">
+          <div className="text-center max-w-md w-full px-4 animate-fadeIn">
+            <CheckCircle className="w-14 h-14 mx-auto text-green-400 mb-4" />
+            <h2 className="text-2xl font-bold text-[var(--color-text-primary)] mb-2">All caught up!</h2>
+            <p className="text-sm text-[var(--color-text-secondary)] mb-6">
+              {nextDue ? `The next card is due ${formatDate(nextDue)}.` : 'There are no more cards to review.'}
+            </p>
+            <button onClick={() => setQueue(null)} className="interactive-button px-6 py-2.5 rounded-lg font-bold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)]">
+              Back to decks
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    const deck = decks.find(d => d.id === currentCard.deckId);
+    return (
+      <div className="flex-1 overflow-y-auto p-4 sm:p-8">
+        <div className="max-w-2xl mx-auto animate-fadeIn">
+          <div className="flex items-center justify-between mb-4 text-sm text-[var(--color-text-secondary)]">
+            <button onClick={() => setQueue(null)} className="hover:text-[var(--color-text-primary)]">← Decks</button>
+            <span>{deck?.name} · {queue.length} left</span>
+          </div>
+          <div className="p-6 sm:p-8 rounded-2xl border border-[var(--color-border)] bg-[var(--color-card)] min-h-[14rem] flex flex-col">
+            <p className="text-xl font-semibold text-center text-[var(--color-text-primary)] whitespace-pre-wrap">{currentCard.front}</p>
+            {showBack && (
+              <>
+                <hr className="my-6 border-[var(--color-border)]" />
+                <p className="text-base text-center text-[var(--color-text-primary)] whitespace-pre-wrap">{currentCard.back}</p>
+              </>
+            )}
+            <div className="mt-auto pt-6 flex items-center justify-between gap-2">
+              {renderSource(currentCard) ?? <span />}
+              <button onClick={handleDeleteCard} className="p-1 rounded text-red-500 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30" title="Delete card">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+          <div className="mt-4">
+            {showBack ? (
+              <div className="grid grid-cols-4 gap-2">
+                {grades.map(({ grade, label, className }) => (
+                  <button key={grade} onClick={() => handleGrade(grade)} className={`interactive-button py-2.5 rounded-lg font-semibold text-sm ${className}`}>
+                    {label}
+                    <span className="block text-xs font-normal opacity-80">{previewInterval(currentCard, grade)}</span>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <button onClick={() => setShowBack(true)} className="w-full interactive-button py-3 rounded-lg font-bold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)]">
+                Show answer
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 sm:p-8">
+      <div className="max-w-2xl mx-auto">
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-[var(--color-text-primary)]">Daily Review</h2>
+            <p className="text-sm text-[var(--color-text-secondary)]">
+              {dueCards.length} card{dueCards.length === 1 ? '' : 's'} due today
+            </p>
+          </div>
+          <button
+            onClick={() => startReview()}
+            disabled={dueCards.length === 0}
+            className="interactive-button flex items-center gap-2 px-5 py-2.5 rounded-lg font-bold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)] disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Play className="w-4 h-4" /> Review all
+          </button>
+        </div>
+
+        {decks.length === 0 ? (
+          <div className="text-center py-12 px-4">
+            <WalletCards className="w-12 h-12 mx-auto text-[var(--color-text-secondary)] opacity-50 mb-3" />
+            <p className="text-sm text-[var(--color-text-secondary)]">
+              No flashcards yet. Generate some from a chat or a note.
+            </p>
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {decks.map(deck => {
+              const cards = flashcards.filter(c => c.deckId === deck.id);
+              const due = dueCards.filter(c => c.deckId === deck.id).length;
+              return (
+                <li key={deck.id} className="group flex items-center gap-3 p-4 rounded-lg border border-[var(--color-border)] bg-[var(--color-card)]">
+                  <WalletCards className="w-5 h-5 flex-shrink-0 text-[var(--color-text-secondary)]" />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold truncate text-[var(--color-text-primary)]">{deck.name}</p>
+                    <p className="text-xs text-[var(--color-text-secondary)]">{due} due · {cards.length} cards</p>
+                  </div>
+                  <button
+                    onClick={() => startReview(deck.id)}
+                    disabled={due === 0}
+                    className="interactive-button px-3 py-1.5 text-sm font-semibold rounded-lg hover:bg-[var(--color-border)] disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    Review
+                  </button>
+                  <button
+                    onClick={() => handleDeleteDeck(deck)}
+                    className="p-1.5 rounded opacity-0 group-hover:opacity-100 focus:opacity-100 text-red-500 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30"
+                    title="Delete deck"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
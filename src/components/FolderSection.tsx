@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Folder as FolderIcon, Inbox, Edit, Trash2 } from 'lucide-react';
+import { Folder, LibraryItemKind } from '../types';
+
+// Chats and notes are dragged onto folder headers with this payload
+export const DRAG_TYPE = 'application/x-ai-tutor-items';
+
+export interface DragPayload {
+  kind: LibraryItemKind;
+  ids: string[];
+}
+
+interface FolderSectionProps {
+  folder: Folder | null; // null for the unfiled group
+  count: number;
+  isCollapsed: boolean;
+  onToggle: () => void;
+  onDropItems: (payload: DragPayload) => void;
+  onRename?: () => void;
+  onDelete?: () => void;
+  children: React.ReactNode;
+}
+
+export function FolderSection({ folder, count, isCollapsed, onToggle, onDropItems, onRename, onDelete, children }: FolderSectionProps) {
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  // --- HANDLERS ---
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setIsDragOver(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    try {
+      onDropItems(JSON.parse(e.dataTransfer.getData(DRAG_TYPE)) as DragPayload);
+    } catch (error) {
+      console.error('Error reading dropped items:', error);
+    }
+  };
+
+  const Icon = folder ? FolderIcon : Inbox;
+  const Chevron = isCollapsed ? ChevronRight : ChevronDown;
+
+  return (
+    <div
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+      className={`rounded-lg transition-colors ${isDragOver ? 'bg-blue-500/10 ring-1 ring-blue-500/60' : ''}`}
+    >
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={onToggle}
+        onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); onToggle(); } }}
+        className="group flex items-center gap-1.5 px-1.5 py-1 rounded-md cursor-pointer text-xs font-semibold uppercase tracking-wide text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]"
+        aria-expanded={!isCollapsed}
+      >
+        <Chevron className="w-3.5 h-3.5 flex-shrink-0" />
+        <Icon className="w-3.5 h-3.5 flex-shrink-0" />
+        <span className="flex-1 truncate">{folder ? folder.name : 'Unfiled'}</span>
+        <span className="tabular-nums font-normal">{count}</span>
+        {(onRename || onDelete) && (
+          <span className="flex opacity-0 group-hover:opacity-100 transition-opacity" onClick={(e) => e.stopPropagation()}>
+            {onRename && (
+              <button onClick={onRename} className="p-0.5 rounded hover:bg-[var(--color-border)]" title="Rename folder">
+                <Edit className="w-3 h-3" />
+              </button>
+            )}
+            {onDelete && (
+              <button onClick={onDelete} className="p-0.5 rounded text-red-500 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30" title="Delete folder">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            )}
+          </span>
+        )}
+      </div>
+      {!isCollapsed && <div className="space-y-1 mt-1 mb-2">{children}</div>}
+    </div>
+  );
+}
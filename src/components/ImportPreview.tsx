@@ -0,0 +1,121 @@
+import { AlertTriangle, Loader2, Upload } from 'lucide-react';
+import { BackupCollection, CollectionPreview, ImportMode, ParsedBackup, backupCollections } from '../utils/backup';
+import { formatDate } from '../utils/helpers';
+
+interface ImportPreviewProps {
+  fileName: string;
+  backup: ParsedBackup;
+  preview: Record<BackupCollection, CollectionPreview>;
+  mode: ImportMode;
+  onModeChange: (mode: ImportMode) => void;
+  isImporting: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const MAX_LISTED_PROBLEMS = 5;
+
+const modes: { id: ImportMode; label: string; description: string }[] = [
+  { id: 'merge', label: 'Merge', description: 'Add new items and update the ones the file has a newer copy of. Everything else stays.' },
+  { id: 'replace', label: 'Replace', description: 'Delete your current data and restore exactly what is in the file, including its settings.' },
+];
+
+export function ImportPreview({ fileName, backup, preview, mode, onModeChange, isImporting, onConfirm, onCancel }: ImportPreviewProps) {
+  const rows = backupCollections.filter(({ key }) => preview[key].incoming > 0 || (mode === 'replace' && preview[key].removed > 0));
+  const removedCount = backupCollections.reduce((sum, { key }) => sum + preview[key].removed, 0);
+
+  return (
+    <div className="p-4 border border-[var(--color-border)] rounded-lg space-y-4 animate-fadeIn">
+      <div>
+        <p className="font-semibold text-sm truncate">{fileName}</p>
+        <p className="text-xs text-[var(--color-text-secondary)]">
+          {backup.source ?? (backup.version === 0 ? 'Older backup without a format version' : `Backup format ${backup.version}`)}
+          {backup.exportedAt && ` · made ${formatDate(backup.exportedAt)}`}
+        </p>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-[var(--color-text-secondary)] text-right">
+            <th className="text-left font-semibold pb-1">In file</th>
+            <th className="font-semibold pb-1">Total</th>
+            <th className="font-semibold pb-1">New</th>
+            <th className="font-semibold pb-1">Newer</th>
+            <th className="font-semibold pb-1">{mode === 'merge' ? 'Kept' : 'Deleted'}</th>
+          </tr>
+        </thead>
+        <tbody className="tabular-nums">
+          {rows.map(({ key, label }) => (
+            <tr key={key} className="text-right border-t border-[var(--color-border)]">
+              <td className="text-left py-1">{label}</td>
+              <td>{preview[key].incoming}</td>
+              <td>{preview[key].added}</td>
+              <td>{preview[key].updated}</td>
+              <td className={mode === 'replace' && preview[key].removed > 0 ? 'text-red-500 dark:text-red-400' : ''}>
+                {mode === 'merge' ? preview[key].kept : preview[key].removed}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {backup.skipped.length > 0 && (
+        <div className="p-3 rounded-lg bg-yellow-100/70 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300 text-xs space-y-1">
+          <p className="flex items-center gap-1.5 font-semibold">
+            <AlertTriangle className="w-3.5 h-3.5" />
+            {backup.skipped.length} {backup.skipped.length === 1 ? 'entry' : 'entries'} could not be read and will be skipped
+          </p>
+          <ul className="list-disc pl-5">
+            {backup.skipped.slice(0, MAX_LISTED_PROBLEMS).map((problem, i) => <li key={i}>{problem}</li>)}
+            {backup.skipped.length > MAX_LISTED_PROBLEMS && <li>and {backup.skipped.length - MAX_LISTED_PROBLEMS} more</li>}
+          </ul>
+        </div>
+      )}
+
+      {/* Chats from other apps are only ever added; replacing would delete everything else */}
+      {!backup.source && (
+        <div className="space-y-2">
+          {modes.map(option => (
+            <label key={option.id} className="flex items-start gap-3 p-2 rounded-lg cursor-pointer hover:bg-[var(--color-card)]">
+              <input
+                type="radio"
+                name="import-mode"
+                checked={mode === option.id}
+                onChange={() => onModeChange(option.id)}
+                className="mt-1 accent-blue-500"
+              />
+              <span>
+                <span className="block text-sm font-semibold">{option.label}</span>
+                <span className="block text-xs text-[var(--color-text-secondary)]">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {mode === 'replace' && removedCount > 0 && (
+        <p className="text-xs text-red-500 dark:text-red-400">
+          {removedCount} stored {removedCount === 1 ? 'item is' : 'items are'} not in the file and will be deleted.
+        </p>
+      )}
+      {mode === 'replace' && backup.encryptedKeys && (
+        <p className="text-xs text-[var(--color-text-secondary)]">The file has encrypted API keys. You will be asked for their passphrase.</p>
+      )}
+      <p className="text-xs text-[var(--color-text-secondary)]">A snapshot of your current data is saved first, so the import can be undone.</p>
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} disabled={isImporting} className="px-4 py-2 rounded-lg text-sm font-semibold hover:bg-[var(--color-card)] transition-colors disabled:opacity-50">
+          Cancel
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={isImporting}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)] transition-colors disabled:opacity-50"
+        >
+          {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          {backup.source ? 'Import' : mode === 'merge' ? 'Merge' : 'Replace'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { Loader2, Lock, ShieldCheck, Unlock } from 'lucide-react';
+import { KeyVaultStatus } from '../services/keyVault';
+
+interface KeyEncryptionSettingsProps {
+  status: KeyVaultStatus;
+  autoLockMinutes: number;
+  onAutoLockChange: (minutes: number) => void;
+  onEnable: (passphrase: string) => Promise<void>;
+  onDisable: () => void;
+  onLock: () => void;
+  onUnlock: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const autoLockOptions = [
+  { minutes: 5, label: 'After 5 minutes idle' },
+  { minutes: 15, label: 'After 15 minutes idle' },
+  { minutes: 30, label: 'After 30 minutes idle' },
+  { minutes: 60, label: 'After 1 hour idle' },
+  { minutes: 0, label: 'Only when the app is closed' },
+];
+
+export function KeyEncryptionSettings({ status, autoLockMinutes, onAutoLockChange, onEnable, onDisable, onLock, onUnlock }: KeyEncryptionSettingsProps) {
+  const [isSettingUp, setIsSettingUp] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isEncrypting, setIsEncrypting] = useState(false);
+
+  const error = passphrase && passphrase.length < MIN_PASSPHRASE_LENGTH
+    ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`
+    : confirmation && confirmation !== passphrase ? 'The passphrases do not match.' : null;
+
+  const handleEnable = async () => {
+    if (error || !passphrase || confirmation !== passphrase) return;
+    setIsEncrypting(true);
+    try {
+      await onEnable(passphrase);
+      setIsSettingUp(false);
+      setPassphrase('');
+      setConfirmation('');
+    } catch (err) {
+      console.error('Error encrypting API keys:', err);
+      alert('Failed to encrypt the API keys.');
+    } finally {
+      setIsEncrypting(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 text-sm border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  if (status === 'off') {
+    return (
+      <div className="p-3 border border-[var(--color-border)] rounded-lg space-y-3">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <h3 className="font-semibold text-sm flex items-center gap-2"><Lock className="w-4 h-4" /> Encrypt keys with a passphrase</h3>
+            <p className="text-xs text-[var(--color-text-secondary)] mt-1">
+              Keys are stored unencrypted in this browser. On a shared computer, encrypt them so they can only be used after entering your passphrase.
+            </p>
+          </div>
+          {!isSettingUp && (
+            <button onClick={() => setIsSettingUp(true)} className="flex-shrink-0 px-3 py-1.5 text-sm rounded-lg font-semibold hover:bg-[var(--color-card)] transition-colors">
+              Set up
+            </button>
+          )}
+        </div>
+        {isSettingUp && (
+          <div className="space-y-2">
+            <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="Passphrase" autoComplete="new-password" className={inputClass} />
+            <input type="password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} placeholder="Repeat passphrase" autoComplete="new-password" className={inputClass} />
+            {error && <p className="text-xs text-red-500 dark:text-red-400">{error}</p>}
+            <p className="text-xs text-[var(--color-text-secondary)]">The passphrase cannot be recovered. If you forget it, you will have to enter your keys again.</p>
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setIsSettingUp(false)} disabled={isEncrypting} className="px-3 py-1.5 text-sm rounded-lg font-semibold hover:bg-[var(--color-card)] transition-colors disabled:opacity-50">
+                Cancel
+              </button>
+              <button
+                onClick={handleEnable}
+                disabled={!!error || !passphrase || confirmation !== passphrase || isEncrypting}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg font-semibold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)] transition-colors disabled:opacity-50"
+              >
+                {isEncrypting && <Loader2 className="w-4 h-4 animate-spin" />}
+                Encrypt and save
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 border border-[var(--color-border)] rounded-lg space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="font-semibold text-sm flex items-center gap-2">
+          {status === 'unlocked' ? <ShieldCheck className="w-4 h-4 text-green-500" /> : <Lock className="w-4 h-4" />}
+          {status === 'unlocked' ? 'Keys are encrypted and unlocked' : 'Keys are encrypted and locked'}
+        </h3>
+        {status === 'unlocked' ? (
+          <button onClick={onLock} className="flex-shrink-0 flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg font-semibold hover:bg-[var(--color-card)] transition-colors">
+            <Lock className="w-4 h-4" /> Lock now
+          </button>
+        ) : (
+          <button onClick={onUnlock} className="flex-shrink-0 flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg font-semibold hover:bg-[var(--color-card)] transition-colors">
+            <Unlock className="w-4 h-4" /> Unlock
+          </button>
+        )}
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <label htmlFor="auto-lock" className="text-sm text-[var(--color-text-secondary)]">Lock again</label>
+        <select
+          id="auto-lock"
+          value={autoLockMinutes}
+          onChange={(e) => onAutoLockChange(Number(e.target.value))}
+          className="px-2 py-1.5 text-sm border border-[var(--color-border)] rounded-lg bg-[var(--color-card)]"
+        >
+          {autoLockOptions.map(option => <option key={option.minutes} value={option.minutes}>{option.label}</option>)}
+        </select>
+      </div>
+      {status === 'unlocked' && (
+        <button onClick={onDisable} className="text-xs text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] underline">
+          Turn off encryption and store the keys unencrypted
+        </button>
+      )}
+    </div>
+  );
+}
@@ -3,24 +3,26 @@ import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus, oneLight } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import { Smile, Sparkles, Copy, Check, Edit2, RefreshCcw, Save, X, Bookmark, Download } from 'lucide-react';
-import { Message } from '../types';
+import { Smile, Sparkles, Copy, Check, Edit2, RefreshCcw, Save, X, Bookmark, BookmarkCheck, Download, ChevronLeft, ChevronRight, Send, Square } from 'lucide-react';
+import { EditMode, Message, Note } from '../types';
+
+export type NoteTarget = Pick<Note, 'id' | 'title'>;
 
 interface MessageBubbleProps {
   message: Message;
+  modelName?: string;
   isStreaming?: boolean;
-  onEditMessage?: (messageId: string, newContent: string) => void;
+  isHighlighted?: boolean;
+  branchIds?: string[]; // This message and its alternate versions, in creation order
+  onSwitchBranch?: (messageId: string) => void;
+  onEditMessage?: (messageId: string, newContent: string, mode: EditMode) => boolean; // False when the edit was refused
   onRegenerateResponse?: (messageId: string) => void;
-  onSaveAsNote?: (content: string) => void;
+  onSaveAsNote?: (message: Message, noteId?: string) => void;
+  noteTargets?: NoteTarget[]; // Existing notes the reply can be appended to
+  savedNotes?: NoteTarget[]; // Notes that were saved from this message
+  onOpenNote?: (noteId: string) => void;
 }
 
-const modelNames = {
-  google: "Gemma",
-  zhipu: "Zhipu",
-  'mistral-small': "Misty",
-  'mistral-codestral': "Cody",
-};
-
 // Memoized code block component to prevent unnecessary re-renders
 const CodeBlock = React.memo(({ language, children, isDarkMode }: { language: string; children: string; isDarkMode: boolean }) => {
   const [copied, setCopied] = useState(false);
@@ -69,18 +71,69 @@ const StreamingIndicator = React.memo(() => (
   </span>
 ));
 
+// "‹ 2/3 ›" switcher between alternate versions of a message
+const BranchSwitcher = React.memo(({ index, total, onPrevious, onNext }: {
+  index: number;
+  total: number;
+  onPrevious: () => void;
+  onNext: () => void;
+}) => (
+  <div className="flex items-center gap-1 text-xs text-[var(--color-text-secondary)] select-none">
+    <button
+      onClick={onPrevious}
+      disabled={index === 0}
+      className="interactive-button p-0.5 rounded hover:bg-[var(--color-border)] disabled:opacity-30 disabled:cursor-not-allowed"
+      title={'Previous version'}
+    >
+      <ChevronLeft className="w-3.5 h-3.5" />
+    </button>
+    <span className="tabular-nums">{index + 1}/{total}</span>
+    <button
+      onClick={onNext}
+      disabled={index === total - 1}
+      className="interactive-button p-0.5 rounded hover:bg-[var(--color-border)] disabled:opacity-30 disabled:cursor-not-allowed"
+      title={'Next version'}
+    >
+      <ChevronRight className="w-3.5 h-3.5" />
+    </button>
+  </div>
+));
+
 // Memoized action buttons to prevent unnecessary re-renders
-const ActionButtons = React.memo(({ isUser, onRegenerate, onEdit, onCopy, onSaveNote, onExport, copied, noteSaved }: {
+const ActionButtons = React.memo(({ isUser, onRegenerate, onEdit, onCopy, onSaveNote, onExport, copied, noteSaved, noteTargets = [], isNoteMenuOpen, onToggleNoteMenu }: {
   isUser: boolean;
   onRegenerate?: () => void;
   onEdit: () => void;
   onCopy: () => void;
-  onSaveNote: () => void;
+  onSaveNote: (noteId?: string) => void;
   onExport: () => void;
   copied: boolean;
   noteSaved: boolean;
+  noteTargets?: NoteTarget[];
+  isNoteMenuOpen: boolean;
+  onToggleNoteMenu: () => void;
 }) => (
-  <div className="absolute -bottom-1 -right-1 flex gap-1 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity duration-200">
+  <div className={`absolute -bottom-1 -right-1 flex gap-1 ${isNoteMenuOpen ? 'opacity-100' : 'opacity-0'} group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity duration-200`}>
+    {isNoteMenuOpen && (
+      <div className="absolute bottom-full right-0 mb-1 w-56 p-1 bg-[var(--color-card)] border border-[var(--color-border)] rounded-lg shadow-lg z-20 text-sm">
+        <button
+          onClick={() => onSaveNote()}
+          className="w-full text-left px-2 py-1.5 rounded hover:bg-[var(--color-border)] font-semibold text-[var(--color-text-primary)]"
+        >
+          New note
+        </button>
+        <p className="px-2 pt-1.5 pb-0.5 text-xs text-[var(--color-text-secondary)]">Append to</p>
+        {noteTargets.map(note => (
+          <button
+            key={note.id}
+            onClick={() => onSaveNote(note.id)}
+            className="w-full text-left px-2 py-1.5 rounded hover:bg-[var(--color-border)] truncate text-[var(--color-text-primary)]"
+          >
+            {note.title}
+          </button>
+        ))}
+      </div>
+    )}
     <div className="flex gap-1 p-1 bg-[var(--color-card)] border border-[var(--color-border)] rounded-lg shadow-sm">
       {!isUser && onRegenerate && (
         <button
@@ -93,9 +146,10 @@ const ActionButtons = React.memo(({ isUser, onRegenerate, onEdit, onCopy, onSave
       )}
       {!isUser && (
         <button
-          onClick={onSaveNote}
-          className={`interactive-button transition-colors p-1 rounded hover:bg-[var(--color-border)] touch-target ${noteSaved ? 'text-blue-400' : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]'}`}
+          onClick={() => (noteTargets.length > 0 ? onToggleNoteMenu() : onSaveNote())}
+          className={`interactive-button transition-colors p-1 rounded hover:bg-[var(--color-border)] touch-target ${noteSaved || isNoteMenuOpen ? 'text-blue-400' : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]'}`}
           title={'Save as Note'}
+          aria-expanded={noteTargets.length > 0 ? isNoteMenuOpen : undefined}
         >
           <Bookmark className="w-4 h-4" />
         </button>
@@ -129,14 +183,22 @@ const ActionButtons = React.memo(({ isUser, onRegenerate, onEdit, onCopy, onSave
 
 export function MessageBubble({
   message,
+  modelName,
   isStreaming = false,
+  isHighlighted = false,
+  branchIds = [],
+  onSwitchBranch,
   onEditMessage,
   onRegenerateResponse,
   onSaveAsNote,
+  noteTargets,
+  savedNotes = [],
+  onOpenNote,
 }: MessageBubbleProps) {
   const isUser = message.role === 'user';
   const [copied, setCopied] = useState(false);
   const [noteSaved, setNoteSaved] = useState(false);
+  const [isNoteMenuOpen, setIsNoteMenuOpen] = useState(false);
   const [editContent, setEditContent] = useState(message.content);
   const [isEditing, setIsEditing] = useState(message.isEditing || false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -157,11 +219,8 @@ export function MessageBubble({
     return () => observer.disconnect();
   }, []);
 
-  // Memoize display model to prevent unnecessary recalculations
-  const displayModel = useMemo(() => {
-    if (isUser || !message.model) return undefined;
-    return modelNames[message.model] || modelNames['google'];
-  }, [isUser, message.model]);
+  const displayModel = isUser ? undefined : modelName;
+  const branchIndex = branchIds.indexOf(message.id);
 
   const handleCopy = useCallback(async () => {
     try {
@@ -176,13 +235,16 @@ export function MessageBubble({
     }
   }, [message.content]);
   
-  const handleSaveNote = useCallback(() => {
+  const handleSaveNote = useCallback((noteId?: string) => {
+    setIsNoteMenuOpen(false);
     if (onSaveAsNote) {
-      onSaveAsNote(message.content);
+      onSaveAsNote(message, noteId);
       setNoteSaved(true);
       setTimeout(() => setNoteSaved(false), 2500); // Visual feedback for 2.5s
     }
-  }, [message.content, onSaveAsNote]);
+  }, [message, onSaveAsNote]);
+
+  const handleToggleNoteMenu = useCallback(() => setIsNoteMenuOpen(open => !open), []);
 
   const handleExport = useCallback(() => {
     const blob = new Blob([message.content], { type: 'text/markdown;charset=utf-8' });
@@ -201,10 +263,9 @@ export function MessageBubble({
     setEditContent(message.content);
   }, [message.content]);
 
-  const handleSaveEdit = useCallback(() => {
-    if (editContent.trim() !== message.content && onEditMessage) {
-      onEditMessage(message.id, editContent.trim());
-    }
+  // A refused edit keeps the editor open, so the text is not lost
+  const handleSaveEdit = useCallback((mode: EditMode) => {
+    if (editContent.trim() !== message.content && onEditMessage && !onEditMessage(message.id, editContent.trim(), mode)) return;
     setIsEditing(false);
   }, [editContent, message.content, message.id, onEditMessage]);
 
@@ -213,6 +274,11 @@ export function MessageBubble({
     setEditContent(message.content);
   }, [message.content]);
 
+  const handleSwitchBranch = useCallback((offset: number) => {
+    const targetId = branchIds[branchIndex + offset];
+    if (targetId && onSwitchBranch) onSwitchBranch(targetId);
+  }, [branchIds, branchIndex, onSwitchBranch]);
+
   const handleRegenerate = useCallback(() => {
     if (onRegenerateResponse) {
       onRegenerateResponse(message.id);
@@ -230,11 +296,12 @@ export function MessageBubble({
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && e.ctrlKey) {
-      handleSaveEdit();
+      // Resending is the default for questions; replies can only be saved
+      handleSaveEdit(isUser ? 'resend' : 'save-only');
     } else if (e.key === 'Escape') {
       handleCancelEdit();
     }
-  }, [handleSaveEdit, handleCancelEdit]);
+  }, [handleSaveEdit, handleCancelEdit, isUser]);
 
   // Cleanup timeout on unmount
   useEffect(() => {
@@ -288,6 +355,7 @@ export function MessageBubble({
 
   return (
     <div
+      data-message-id={message.id}
       className={`message-wrapper flex gap-3 sm:gap-4 ${isUser ? 'justify-end' : 'justify-start'} group transition-all duration-200 ease-out will-change-transform`}
     >
       {!isUser && (
@@ -296,10 +364,16 @@ export function MessageBubble({
         </div>
       )}
       
-      <div className="message-bubble relative bg-[var(--color-card)] p-3 sm:p-4 rounded-xl min-h-[3rem] flex flex-col">
-        {!isUser && displayModel && (
-          <div className="text-xs text-[var(--color-text-secondary)] mb-2 font-medium tracking-wide">
+      <div className={`message-bubble relative bg-[var(--color-card)] p-3 sm:p-4 rounded-xl min-h-[3rem] flex flex-col ${isHighlighted ? 'animate-flash' : ''}`}>
+        {!isUser && (displayModel || message.isStopped) && (
+          <div className="text-xs text-[var(--color-text-secondary)] mb-2 font-medium tracking-wide flex items-center gap-2">
             {displayModel}
+            {message.isStopped && (
+              <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-[var(--color-border)]" title={'Generation was stopped before the reply finished'}>
+                <Square className="w-2.5 h-2.5" />
+                Stopped
+              </span>
+            )}
           </div>
         )}
         
@@ -321,17 +395,40 @@ export function MessageBubble({
                 <X className="w-3 h-3" />
                 Cancel
               </button>
-              <button
-                onClick={handleSaveEdit}
-                className="interactive-button flex items-center gap-1 bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded-lg transition-colors text-sm font-medium touch-target"
-                disabled={editContent.trim() === message.content || !editContent.trim()}
-              >
-                <Save className="w-3 h-3" />
-                Save
-              </button>
+              {isUser ? (
+                <>
+                  <button
+                    onClick={() => handleSaveEdit('save-only')}
+                    className="interactive-button flex items-center gap-1 px-3 py-1.5 border border-[var(--color-border)] rounded-lg text-[var(--color-text-primary)] hover:bg-[var(--color-border)] transition-colors text-sm font-medium touch-target disabled:opacity-50"
+                    disabled={editContent.trim() === message.content || !editContent.trim()}
+                    title={'Fix the text without changing the replies below'}
+                  >
+                    <Save className="w-3 h-3" />
+                    Save only
+                  </button>
+                  <button
+                    onClick={() => handleSaveEdit('resend')}
+                    className="interactive-button flex items-center gap-1 bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded-lg transition-colors text-sm font-medium touch-target"
+                    disabled={editContent.trim() === message.content || !editContent.trim()}
+                    title={'Start a new branch from this message and get a new reply'}
+                  >
+                    <Send className="w-3 h-3" />
+                    Save & resend
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={() => handleSaveEdit('save-only')}
+                  className="interactive-button flex items-center gap-1 bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded-lg transition-colors text-sm font-medium touch-target"
+                  disabled={editContent.trim() === message.content || !editContent.trim()}
+                >
+                  <Save className="w-3 h-3" />
+                  Save
+                </button>
+              )}
             </div>
             <p className="text-xs text-[var(--color-text-placeholder)]">
-              Press Ctrl+Enter to save, Escape to cancel
+              {isUser ? 'Press Ctrl+Enter to save & resend, Escape to cancel' : 'Press Ctrl+Enter to save, Escape to cancel'}
             </p>
           </div>
         ) : (
@@ -346,6 +443,29 @@ export function MessageBubble({
           </div>
         )}
         
+        {!isEditing && savedNotes.length > 0 && (
+          <button
+            onClick={() => onOpenNote?.(savedNotes[0].id)}
+            className="mt-2 inline-flex items-center gap-1 max-w-full text-xs text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:underline"
+            title="Open the note saved from this message"
+          >
+            <BookmarkCheck className="w-3.5 h-3.5 flex-shrink-0 text-blue-400" />
+            <span className="truncate">Saved in {savedNotes[0].title}</span>
+            {savedNotes.length > 1 && <span className="flex-shrink-0">+{savedNotes.length - 1}</span>}
+          </button>
+        )}
+
+        {!isEditing && branchIds.length > 1 && onSwitchBranch && (
+          <div className={`mt-2 flex ${isUser ? 'justify-end' : 'justify-start'}`}>
+            <BranchSwitcher
+              index={branchIndex}
+              total={branchIds.length}
+              onPrevious={() => handleSwitchBranch(-1)}
+              onNext={() => handleSwitchBranch(1)}
+            />
+          </div>
+        )}
+
         {!isEditing && !isStreaming && message.content.length > 0 && onEditMessage && (
           <ActionButtons
             isUser={isUser}
@@ -356,6 +476,9 @@ export function MessageBubble({
             onExport={handleExport}
             copied={copied}
             noteSaved={noteSaved}
+            noteTargets={noteTargets}
+            isNoteMenuOpen={isNoteMenuOpen}
+            onToggleNoteMenu={handleToggleNoteMenu}
           />
         )}
       </div>
@@ -1,19 +1,80 @@
-import React, { useMemo } from 'react';
-import ReactMarkdown from 'react-markdown';
+import { useEffect, useRef, useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import { Note } from '../types';
+import { Plus, PenLine, Columns2, Eye, ExternalLink } from 'lucide-react';
+import { Conversation, Note } from '../types';
 import { formatDate } from '../utils/helpers';
 import { useTheme } from '../context/ThemeContext'; // Import the hook
+import { ExportFormat } from '../utils/export';
+import { ExportMenu } from './ExportMenu';
+
+export type NoteChanges = Partial<Pick<Note, 'title' | 'content'>>;
 
 interface NoteViewProps {
   note: Note | null;
+  sourceConversation?: Conversation; // Missing when the note has no source or it was deleted
+  onUpdateNote: (id: string, changes: NoteChanges) => void;
+  onCreateNote: () => void;
+  onOpenSource: (note: Note) => void;
+  onExport: (format: ExportFormat) => void;
 }
-// ...
-export function NoteView({ note }: NoteViewProps) {
+
+type EditorLayout = 'edit' | 'split' | 'preview';
+
+const AUTOSAVE_DELAY = 800;
+const UNTITLED = 'Untitled note';
+
+const layouts: { id: EditorLayout; label: string; icon: typeof Eye }[] = [
+  { id: 'edit', label: 'Edit', icon: PenLine },
+  { id: 'split', label: 'Split', icon: Columns2 },
+  { id: 'preview', label: 'Preview', icon: Eye },
+];
+
+const markdownComponents: Components = {
+  code({ className, children }) {
+    const match = /language-(\w+)/.exec(className || '');
+    return match ? (
+      <SyntaxHighlighter style={vscDarkPlus} language={match[1]} PreTag="div" className="rounded-md text-sm">
+        {String(children).replace(/\n$/, '')}
+      </SyntaxHighlighter>
+    ) : (
+      <code className="bg-gray-100 dark:bg-[var(--color-bg)] px-1.5 py-0.5 rounded text-sm">
+        {children}
+      </code>
+    );
+  },
+};
+
+// Keyed by note id in App, so the drafts below always belong to one note
+export function NoteView({ note, sourceConversation, onUpdateNote, onCreateNote, onOpenSource, onExport }: NoteViewProps) {
   const { logoSrc } = useTheme(); // Get logoSrc from context
-  // ...
+  const [title, setTitle] = useState(note?.title ?? '');
+  const [content, setContent] = useState(note?.content ?? '');
+  // New notes open in the editor, existing ones in split view
+  const [layout, setLayout] = useState<EditorLayout>(() => (note?.content ? 'split' : 'edit'));
+
+  const isDirty = !!note && (title !== note.title || content !== note.content);
+
+  // Always the latest drafts, so the save on unmount does not drop the last keystrokes
+  const saveRef = useRef(() => {});
+  saveRef.current = () => {
+    if (note && (title !== note.title || content !== note.content)) {
+      onUpdateNote(note.id, { title: title.trim() || UNTITLED, content });
+    }
+  };
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => saveRef.current(), AUTOSAVE_DELAY);
+    return () => clearTimeout(timeoutId);
+  }, [title, content]);
+
+  useEffect(() => {
+    const save = saveRef;
+    return () => save.current();
+  }, []);
+
   if (!note) {
     return (
       <div className="flex-1 flex items-center justify-center p-4">
@@ -26,12 +87,104 @@ export function NoteView({ note }: NoteViewProps) {
           <h2 className="text-xl sm:text-2xl font-bold text-[var(--color-text-primary)] mb-2">
             Select a note to view
           </h2>
-          <p className="text-sm text-[var(--color-text-secondary)]">
-            Choose a note from the sidebar to get started
+          <p className="text-sm text-[var(--color-text-secondary)] mb-4">
+            Choose a note from the sidebar, or start a new one
           </p>
+          <button
+            onClick={onCreateNote}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-[var(--color-accent-bg)] hover:bg-[var(--color-accent-bg-hover)] text-[var(--color-accent-text)] rounded-lg font-semibold transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            New note
+          </button>
         </div>
       </div>
     );
   }
-  // ... (rest of component is unchanged)
+
+  const wordCount = content.trim() ? content.trim().split(/\s+/).length : 0;
+
+  return (
+    <div className="chat-area">
+      <div className="chat-header">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={() => !title.trim() && setTitle(UNTITLED)}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          placeholder={UNTITLED}
+          className="flex-1 min-w-0 text-sm font-semibold bg-transparent text-[var(--color-text-primary)] focus:outline-none"
+          aria-label="Note title"
+        />
+        <span className="hidden sm:block text-xs text-[var(--color-text-secondary)] flex-shrink-0" aria-live="polite">
+          {isDirty ? 'Saving…' : `Saved ${formatDate(new Date(note.updatedAt))}`}
+        </span>
+        <div className="flex items-center gap-0.5 p-0.5 rounded-lg bg-[var(--color-card)] flex-shrink-0">
+          {layouts.map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => setLayout(id)}
+              className={`p-1.5 rounded-md transition-colors ${
+                layout === id ? 'bg-[var(--color-border)] text-[var(--color-text-primary)]' : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]'
+              } ${id === 'split' ? 'hidden md:block' : ''}`}
+              title={label}
+              aria-pressed={layout === id}
+            >
+              <Icon className="w-4 h-4" />
+            </button>
+          ))}
+        </div>
+        <ExportMenu
+          onExport={onExport}
+          className="p-1.5 rounded-md text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-card)] transition-colors"
+        />
+      </div>
+
+      <div className={`flex-1 min-h-0 grid ${layout === 'split' ? 'md:grid-cols-2' : 'grid-cols-1'}`}>
+        {layout !== 'preview' && (
+          <textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            placeholder="Write in Markdown…"
+            className={`w-full h-full resize-none p-4 sm:p-6 bg-transparent font-mono text-sm leading-relaxed text-[var(--color-text-primary)] placeholder:text-[var(--color-text-placeholder)] focus:outline-none ${
+              layout === 'split' ? 'md:border-r border-[var(--color-border)]' : ''
+            }`}
+            autoFocus={!note.content}
+            spellCheck
+          />
+        )}
+        {layout !== 'edit' && (
+          <div className={`overflow-y-auto p-4 sm:p-6 ${layout === 'split' ? 'hidden md:block' : ''}`}>
+            {content.trim() ? (
+              <div className="prose dark:prose-invert prose-base max-w-none leading-relaxed">
+                <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+                  {content}
+                </ReactMarkdown>
+              </div>
+            ) : (
+              <p className="text-sm text-[var(--color-text-secondary)]">Nothing to preview yet</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="px-4 py-1.5 border-t border-[var(--color-border)] text-xs text-[var(--color-text-secondary)] flex items-center gap-4">
+        <span>{wordCount} {wordCount === 1 ? 'word' : 'words'}</span>
+        <span className="hidden sm:inline">Created {formatDate(new Date(note.createdAt))}</span>
+        {sourceConversation ? (
+          <button
+            onClick={() => onOpenSource(note)}
+            className="ml-auto inline-flex items-center gap-1 min-w-0 hover:text-[var(--color-text-primary)] hover:underline"
+            title={`Open source conversation: ${sourceConversation.title}`}
+          >
+            <ExternalLink className="w-3.5 h-3.5 flex-shrink-0" />
+            <span className="truncate">Open source conversation</span>
+          </button>
+        ) : note.sourceConversationId && (
+          <span className="ml-auto italic">Source conversation was deleted</span>
+        )}
+      </div>
+    </div>
+  );
 }
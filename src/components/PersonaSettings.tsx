@@ -0,0 +1,212 @@
+import React, { useRef, useState } from 'react';
+import { Copy, Edit2, Trash2, Plus, Upload, Download } from 'lucide-react';
+import { APISettings, Persona, TutorMode } from '../types';
+import { clonePersona, createPersona, exportPersonas, listPersonas, parsePersonas } from '../services/personas';
+import { getProvider, listProviders } from '../services/providers';
+
+interface PersonaSettingsProps {
+  settings: APISettings;
+  onChange: (changes: Partial<APISettings>) => void;
+}
+
+const inputClass = 'w-full px-3 py-1.5 text-sm border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+const iconButtonClass = 'p-1 rounded text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-border)]';
+
+export function PersonaSettings({ settings, onChange }: PersonaSettingsProps) {
+  const [editing, setEditing] = useState<Persona | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const savePersonas = (customPersonas: Persona[], selectedTutorMode: TutorMode = settings.selectedTutorMode) => {
+    onChange({ customPersonas, selectedTutorMode });
+  };
+
+  // --- HANDLERS ---
+  const handleSelect = (persona: Persona) => {
+    // A persona's preferred model is picked with it when it is still available
+    const preferred = persona.preferredModel && getProvider(persona.preferredModel, settings) ? persona.preferredModel : undefined;
+    onChange({ selectedTutorMode: persona.id, ...(preferred ? { selectedModel: preferred } : {}) });
+  };
+
+  const handleSaveEdit = () => {
+    if (!editing) return;
+    if (!editing.name.trim() || !editing.systemPrompt.trim()) {
+      alert('A persona needs a name and a system prompt.');
+      return;
+    }
+    const persona = { ...editing, name: editing.name.trim(), emoji: editing.emoji.trim() || '🤖' };
+    const exists = settings.customPersonas.some(p => p.id === persona.id);
+    savePersonas(exists
+      ? settings.customPersonas.map(p => (p.id === persona.id ? persona : p))
+      : [...settings.customPersonas, persona]);
+    setEditing(null);
+  };
+
+  const handleDelete = (persona: Persona) => {
+    if (!window.confirm(`Delete the persona "${persona.name}"?`)) return;
+    const remaining = settings.customPersonas.filter(p => p.id !== persona.id);
+    savePersonas(remaining, settings.selectedTutorMode === persona.id ? 'standard' : settings.selectedTutorMode);
+  };
+
+  const handleExport = () => {
+    if (settings.customPersonas.length === 0) {
+      alert('There are no custom personas to export yet. Duplicate a built-in one or create a new persona first.');
+      return;
+    }
+    const blob = new Blob([exportPersonas(settings.customPersonas)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'ai-tutor-personas.json';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const imported = parsePersonas(e.target?.result as string);
+        const importedIds = new Set(imported.map(p => p.id));
+        savePersonas([...settings.customPersonas.filter(p => !importedIds.has(p.id)), ...imported]);
+        alert(`Imported ${imported.length} persona${imported.length === 1 ? '' : 's'}.`);
+      } catch (error) {
+        console.error('Error importing personas:', error);
+        alert(error instanceof Error ? `Failed to import personas: ${error.message}` : 'Failed to import personas.');
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  if (editing) {
+    return (
+      <div className="space-y-3">
+        <h3 className="text-lg font-semibold text-[var(--color-text-primary)]">
+          {settings.customPersonas.some(p => p.id === editing.id) ? 'Edit Persona' : 'New Persona'}
+        </h3>
+        <div className="flex gap-2">
+          <input
+            value={editing.emoji}
+            onChange={(e) => setEditing({ ...editing, emoji: e.target.value })}
+            className={`${inputClass} !w-16 text-center`}
+            aria-label="Emoji"
+          />
+          <input
+            value={editing.name}
+            onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+            placeholder="Name, e.g. Chemistry 101 TA"
+            className={inputClass}
+          />
+        </div>
+        <input
+          value={editing.description}
+          onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+          placeholder="Short description"
+          className={inputClass}
+        />
+        <textarea
+          value={editing.systemPrompt}
+          onChange={(e) => setEditing({ ...editing, systemPrompt: e.target.value })}
+          placeholder="System prompt: who the tutor is and how it should teach"
+          rows={8}
+          className={`${inputClass} resize-y`}
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-xs text-[var(--color-text-secondary)] space-y-1">
+            <span>Preferred model</span>
+            <select
+              value={editing.preferredModel ?? ''}
+              onChange={(e) => setEditing({ ...editing, preferredModel: e.target.value || undefined })}
+              className={inputClass}
+            >
+              <option value="">Keep the selected model</option>
+              {listProviders(settings).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          </label>
+          <label className="text-xs text-[var(--color-text-secondary)] space-y-1">
+            <span>Temperature (0–2)</span>
+            <input
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={editing.temperature ?? ''}
+              onChange={(e) => setEditing({ ...editing, temperature: e.target.value ? Math.min(2, Math.max(0, Number(e.target.value))) : undefined })}
+              placeholder="Model default"
+              className={inputClass}
+            />
+          </label>
+        </div>
+        <div className="flex justify-end gap-2 pt-1">
+          <button onClick={() => setEditing(null)} className="px-4 py-2 text-sm rounded-lg hover:bg-[var(--color-card)] transition-colors">
+            Cancel
+          </button>
+          <button onClick={handleSaveEdit} className="px-4 py-2 text-sm font-semibold bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
+            Save Persona
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold text-[var(--color-text-primary)]">
+          Tutor Mode
+        </h3>
+        <div className="flex gap-1">
+          <button onClick={() => setEditing(createPersona())} className="flex items-center gap-1 px-2 py-1 text-sm rounded-lg hover:bg-[var(--color-card)] transition-colors">
+            <Plus className="w-4 h-4" /> New
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 px-2 py-1 text-sm rounded-lg hover:bg-[var(--color-card)] transition-colors" title="Import personas from JSON">
+            <Upload className="w-4 h-4" /> Import
+          </button>
+          <button onClick={handleExport} className="flex items-center gap-1 px-2 py-1 text-sm rounded-lg hover:bg-[var(--color-card)] transition-colors" title="Export custom personas as JSON">
+            <Download className="w-4 h-4" /> Export
+          </button>
+          <input type="file" ref={fileInputRef} onChange={handleImport} accept=".json" className="hidden" />
+        </div>
+      </div>
+      <p className="text-xs text-[var(--color-text-secondary)] mt-1">
+        Used for new chats. Change it for a single chat from the chat header.
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-3">
+        {listPersonas(settings).map(persona => (
+          <div
+            key={persona.id}
+            role="button"
+            tabIndex={0}
+            onClick={() => handleSelect(persona)}
+            onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); handleSelect(persona); } }}
+            className={`group relative p-4 border rounded-lg text-left cursor-pointer transition-all duration-200 ${settings.selectedTutorMode === persona.id ? 'bg-[var(--color-card)] border-blue-500 ring-2 ring-blue-500/50' : 'bg-transparent border-[var(--color-border)] hover:bg-[var(--color-card)] hover:border-gray-500'}`}
+          >
+            <p className="text-lg pr-16 truncate">{persona.emoji} <span className="font-semibold">{persona.name}</span></p>
+            <p className="text-sm text-[var(--color-text-secondary)] mt-1">{persona.description || 'Custom persona'}</p>
+            <div
+              className="absolute top-2 right-2 flex gap-0.5 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity"
+              onClick={(e) => e.stopPropagation()}
+              onKeyDown={(e) => e.stopPropagation()}
+            >
+              <button onClick={() => setEditing(clonePersona(persona))} className={iconButtonClass} title="Duplicate">
+                <Copy className="w-3.5 h-3.5" />
+              </button>
+              {!persona.isBuiltIn && (
+                <>
+                  <button onClick={() => setEditing(persona)} className={iconButtonClass} title="Edit">
+                    <Edit2 className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => handleDelete(persona)} className="p-1 rounded text-red-500 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30" title="Delete">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,56 +1,151 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { X, Check, XCircle, CheckCircle, Lightbulb } from 'lucide-react';
-import { StudySession } from '../types';
+import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react';
+import { X, XCircle, CheckCircle, Lightbulb, RotateCcw, History, Loader2, Check } from 'lucide-react';
+import { QuizAnswer, QuizAttempt, QuizQuestion, QuizResponse, StudySession } from '../types';
+import { formatDate, generateId } from '../utils/helpers';
+import { ShortAnswerGrade, answerPoints, describeCorrectAnswer, formatScore, gradeResponse, quizQuestionTypes } from '../services/quiz';
+
+type ShortAnswerQuestion = Extract<QuizQuestion, { type: 'short-answer' }>;
 
 interface QuizModalProps {
   isOpen: boolean;
   onClose: () => void;
   session: StudySession | null;
+  onSaveAttempt: (sessionId: string, attempt: QuizAttempt) => void;
+  onGradeShortAnswer: (question: ShortAnswerQuestion, answer: string, signal: AbortSignal) => Promise<ShortAnswerGrade>;
+}
+
+// Half credit or more counts a short answer as correct
+const SHORT_ANSWER_PASS_POINTS = 0.5;
+
+const correctClass = 'bg-green-100 border-green-300 text-green-700 dark:bg-green-900/50 dark:border-green-500/60 dark:text-green-300';
+const wrongClass = 'bg-red-100 border-red-300 text-red-700 dark:bg-red-900/50 dark:border-red-500/60 dark:text-red-300';
+const textInputClass = 'w-full p-4 border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] text-base focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-80';
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+function attemptDuration(attempt: QuizAttempt): number {
+  return attempt.answers.reduce((sum, a) => sum + a.timeMs, 0);
 }
 
-export function QuizModal({ isOpen, onClose, session }: QuizModalProps) {
+export function QuizModal({ isOpen, onClose, session, onSaveAttempt, onGradeShortAnswer }: QuizModalProps) {
+  const [showOverview, setShowOverview] = useState(false);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
-  const [userAnswers, setUserAnswers] = useState<Record<string, string>>({});
+  const [answers, setAnswers] = useState<QuizAnswer[]>([]);
   const [showFeedback, setShowFeedback] = useState(false);
   const [quizCompleted, setQuizCompleted] = useState(false);
+  // Unsubmitted input for the questions that need a "Check" step
+  const [selectedOptions, setSelectedOptions] = useState<number[]>([]);
+  const [textAnswer, setTextAnswer] = useState('');
+  const [isGrading, setIsGrading] = useState(false);
+  const attemptStartedAtRef = useRef(new Date());
+  const questionShownAtRef = useRef(Date.now());
+  const gradingAbortControllerRef = useRef<AbortController | null>(null);
+  // Read when a quiz opens; saving an attempt updates the session, which must not restart the quiz
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
+  const sessionId = session?.id;
   const currentQuestion = session?.questions[currentQuestionIndex];
+  const currentAnswer = showFeedback ? answers[answers.length - 1] : undefined;
+
+  const resetQuestion = useCallback(() => {
+    gradingAbortControllerRef.current?.abort();
+    setShowFeedback(false);
+    setSelectedOptions([]);
+    setTextAnswer('');
+    setIsGrading(false);
+    questionShownAtRef.current = Date.now();
+  }, []);
 
-  // Reset state when a new session is passed or the modal is closed
+  const startAttempt = useCallback(() => {
+    setShowOverview(false);
+    setCurrentQuestionIndex(0);
+    setAnswers([]);
+    setQuizCompleted(false);
+    resetQuestion();
+    attemptStartedAtRef.current = new Date();
+  }, [resetQuestion]);
+
+  // A new quiz starts right away; one taken before opens on its history
   useEffect(() => {
-    if (isOpen) {
-      setCurrentQuestionIndex(0);
-      setSelectedAnswer(null);
-      setUserAnswers({});
-      setShowFeedback(false);
-      setQuizCompleted(false);
-    }
-  }, [isOpen, session]);
+    const openedSession = sessionRef.current;
+    if (!isOpen || !sessionId || !openedSession) return;
+    startAttempt();
+    setShowOverview(openedSession.attempts.length > 0);
+  }, [isOpen, sessionId, startAttempt]);
 
-  const handleAnswerSelect = (option: string) => {
-    if (showFeedback) return;
-    setSelectedAnswer(option);
-    setUserAnswers(prev => ({ ...prev, [currentQuestion!.id]: option }));
+  const buildAttempt = (attemptAnswers: QuizAnswer[], completed: boolean): QuizAttempt => ({
+    id: generateId(),
+    startedAt: attemptStartedAtRef.current,
+    completedAt: completed ? new Date() : undefined,
+    answers: attemptAnswers,
+    score: attemptAnswers.reduce((sum, a) => sum + answerPoints(a), 0),
+  });
+
+  const recordAnswer = (question: QuizQuestion, answer: QuizResponse, grade: Pick<QuizAnswer, 'isCorrect' | 'points' | 'feedback'>, timeMs: number) => {
+    setAnswers(prev => [...prev, { questionId: question.id, answer, ...grade, timeMs }]);
     setShowFeedback(true);
   };
 
+  // Multiple choice and true/false are answered with a single click
+  const handleAnswerSelect = (answer: number | boolean) => {
+    if (showFeedback || !currentQuestion) return;
+    recordAnswer(currentQuestion, answer, gradeResponse(currentQuestion, answer)!, Date.now() - questionShownAtRef.current);
+  };
+
+  const handleToggleOption = (index: number) => {
+    if (showFeedback) return;
+    setSelectedOptions(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index].sort((a, b) => a - b));
+  };
+
+  const handleCheckAnswer = async () => {
+    if (showFeedback || isGrading || !currentQuestion) return;
+    const timeMs = Date.now() - questionShownAtRef.current;
+    if (currentQuestion.type !== 'short-answer') {
+      const answer = currentQuestion.type === 'multi-select' ? selectedOptions : textAnswer.trim();
+      recordAnswer(currentQuestion, answer, gradeResponse(currentQuestion, answer)!, timeMs);
+      return;
+    }
+
+    const controller = new AbortController();
+    gradingAbortControllerRef.current = controller;
+    setIsGrading(true);
+    try {
+      const { points, feedback } = await onGradeShortAnswer(currentQuestion, textAnswer.trim(), controller.signal);
+      if (controller.signal.aborted) return;
+      recordAnswer(currentQuestion, textAnswer.trim(), { isCorrect: points >= SHORT_ANSWER_PASS_POINTS, points, feedback }, timeMs);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error(error);
+      alert(error instanceof Error ? error.message : 'Failed to grade the answer.');
+    } finally {
+      if (gradingAbortControllerRef.current === controller) gradingAbortControllerRef.current = null;
+      setIsGrading(false);
+    }
+  };
+
   const handleNextQuestion = () => {
     if (session && currentQuestionIndex < session.questions.length - 1) {
       setCurrentQuestionIndex(prev => prev + 1);
-      setSelectedAnswer(null);
-      setShowFeedback(false);
-    } else {
+      resetQuestion();
+    } else if (session) {
       setQuizCompleted(true);
+      onSaveAttempt(session.id, buildAttempt(answers, true));
     }
   };
 
-  const score = useMemo(() => {
-    if (!session) return 0;
-    return session.questions.reduce((acc, question) => {
-      const correctAnswer = question.options[question.correctAnswer];
-      return userAnswers[question.id] === correctAnswer ? acc + 1 : acc;
-    }, 0);
-  }, [quizCompleted, session, userAnswers]);
+  // Closing midway still records what was answered
+  const handleClose = () => {
+    gradingAbortControllerRef.current?.abort();
+    if (session && !showOverview && !quizCompleted && answers.length > 0) {
+      onSaveAttempt(session.id, buildAttempt(answers, false));
+    }
+    onClose();
+  };
+
+  const score = useMemo(() => answers.reduce((sum, a) => sum + answerPoints(a), 0), [answers]);
 
   const scorePercentage = useMemo(() => {
     if (!session || session.questions.length === 0) return 0;
@@ -68,54 +163,130 @@ export function QuizModal({ isOpen, onClose, session }: QuizModalProps) {
 
   const progress = ((currentQuestionIndex + 1) / session.questions.length) * 100;
 
+  const renderChoice = (label: string, index: number, isSelected: boolean, isCorrectChoice: boolean, onClick: () => void, marker: React.ReactNode) => {
+    let buttonClass = isSelected
+      ? 'bg-[var(--color-card)] border-blue-500 ring-1 ring-blue-500/50'
+      : 'bg-[var(--color-card)] border-transparent hover:bg-[var(--color-border)]';
+
+    if (showFeedback) {
+      if (isCorrectChoice) {
+        buttonClass = correctClass;
+      } else if (isSelected) {
+        buttonClass = wrongClass;
+      } else {
+         buttonClass = 'bg-[var(--color-card)] border-transparent opacity-60';
+      }
+    }
+    return (
+      <button
+        key={index}
+        onClick={onClick}
+        disabled={showFeedback}
+        className={`w-full text-left p-4 border rounded-lg transition-all duration-200 text-base font-semibold flex items-center justify-between disabled:cursor-not-allowed group ${buttonClass}`}
+      >
+        <div className="flex items-center gap-4">
+          <div className={`flex-shrink-0 w-6 h-6 rounded-md flex items-center justify-center text-sm font-bold ${showFeedback && isCorrectChoice ? 'bg-green-500/80 text-white' : 'bg-[var(--color-border)] group-hover:bg-black/10 dark:group-hover:bg-white/10'}`}>
+            {marker}
+          </div>
+          <span>{label}</span>
+        </div>
+        {showFeedback && isCorrectChoice && <CheckCircle className="w-5 h-5 text-green-400" />}
+        {showFeedback && isSelected && !isCorrectChoice && <XCircle className="w-5 h-5 text-red-400" />}
+      </button>
+    );
+  };
+
+  const renderAnswerInput = (question: QuizQuestion) => {
+    switch (question.type) {
+      case 'multiple-choice':
+        return question.options.map((option, index) =>
+          renderChoice(option, index, currentAnswer?.answer === index, question.correctAnswer === index, () => handleAnswerSelect(index), String.fromCharCode(65 + index))
+        );
+      case 'true-false':
+        return [true, false].map((value, index) =>
+          renderChoice(value ? 'True' : 'False', index, currentAnswer?.answer === value, question.correctAnswer === value, () => handleAnswerSelect(value), value ? 'T' : 'F')
+        );
+      case 'multi-select': {
+        const chosen = currentAnswer && Array.isArray(currentAnswer.answer) ? currentAnswer.answer : selectedOptions;
+        return question.options.map((option, index) =>
+          renderChoice(option, index, chosen.includes(index), showFeedback && question.correctAnswers.includes(index), () => handleToggleOption(index), chosen.includes(index) ? <Check className="w-4 h-4" /> : null)
+        );
+      }
+      case 'fill-blank':
+        return (
+          <input
+            value={textAnswer}
+            onChange={(e) => setTextAnswer(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && textAnswer.trim()) handleCheckAnswer(); }}
+            disabled={showFeedback}
+            placeholder="Type the missing word or phrase"
+            className={textInputClass}
+            autoFocus
+          />
+        );
+      case 'short-answer':
+        return (
+          <textarea
+            value={textAnswer}
+            onChange={(e) => setTextAnswer(e.target.value)}
+            disabled={showFeedback || isGrading}
+            placeholder="Answer in a sentence or two"
+            rows={4}
+            className={`${textInputClass} resize-y`}
+            autoFocus
+          />
+        );
+    }
+  };
+
+  // Choice questions mark the options themselves; typed answers get a verdict
+  const renderVerdict = (question: QuizQuestion, answer: QuizAnswer) => {
+    if (question.type !== 'fill-blank' && question.type !== 'short-answer') return null;
+    const points = answerPoints(answer);
+    const verdict = answer.isCorrect ? (points < 1 ? `Mostly correct (${Math.round(points * 100)}%)` : 'Correct') : points > 0 ? `Partly correct (${Math.round(points * 100)}%)` : 'Incorrect';
+    return (
+      <div className={`mt-4 p-4 border rounded-lg text-sm animate-fade-in-up ${answer.isCorrect ? correctClass : wrongClass}`}>
+        <p className="flex items-center gap-2 font-bold">
+          {answer.isCorrect ? <CheckCircle className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+          {verdict}
+        </p>
+        {answer.feedback && <p className="mt-2">{answer.feedback}</p>}
+        {(!answer.isCorrect || question.type === 'short-answer') && describeCorrectAnswer(question) && (
+          <p className="mt-2">
+            <span className="font-semibold">{question.type === 'short-answer' ? 'Sample answer: ' : 'Answer: '}</span>
+            {describeCorrectAnswer(question)}
+          </p>
+        )}
+      </div>
+    );
+  };
+
   const renderQuizContent = () => {
     if (!currentQuestion) return null;
+    const typeLabel = currentQuestion.type !== 'multiple-choice' ? quizQuestionTypes.find(t => t.type === currentQuestion.type)?.label : undefined;
     return (
       <div className="animate-fadeIn">
         <p className="mb-4 text-center">
           <span className="bg-[var(--color-card)] px-3 py-1 rounded-full text-sm font-semibold text-[var(--color-text-secondary)]">
             Question {currentQuestionIndex + 1} / {session.questions.length}
+            {typeLabel && ` · ${typeLabel}`}
           </span>
         </p>
+        {currentQuestionIndex === 0 && !!session.droppedQuestions && (
+          <p className="-mt-2 mb-4 text-center text-xs text-[var(--color-text-secondary)]">
+            {session.droppedQuestions} generated question{session.droppedQuestions === 1 ? ' was' : 's were'} malformed and left out.
+          </p>
+        )}
         <h3 className="text-xl md:text-2xl font-bold text-center text-[var(--color-text-primary)] mb-8 leading-tight">
           {currentQuestion.question}
         </h3>
 
         <div className="space-y-3">
-          {currentQuestion.options?.map((option, index) => {
-            const isSelected = selectedAnswer === option;
-            const isCorrectAnswer = currentQuestion.correctAnswer === index;
-            let buttonClass = 'bg-[var(--color-card)] border-transparent hover:bg-[var(--color-border)]';
-
-            if (showFeedback) {
-              if (isCorrectAnswer) {
-                buttonClass = 'bg-green-100 border-green-300 text-green-700 dark:bg-green-900/50 dark:border-green-500/60 dark:text-green-300';
-              } else if (isSelected && !isCorrectAnswer) {
-                buttonClass = 'bg-red-100 border-red-300 text-red-700 dark:bg-red-900/50 dark:border-red-500/60 dark:text-red-300';
-              } else {
-                 buttonClass = 'bg-[var(--color-card)] border-transparent opacity-60';
-              }
-            }
-            return (
-              <button
-                key={option}
-                onClick={() => handleAnswerSelect(option)}
-                disabled={showFeedback}
-                className={`w-full text-left p-4 border rounded-lg transition-all duration-200 text-base font-semibold flex items-center justify-between disabled:cursor-not-allowed group ${buttonClass}`}
-              >
-                <div className="flex items-center gap-4">
-                  <div className={`flex-shrink-0 w-6 h-6 rounded-md flex items-center justify-center text-sm font-bold ${showFeedback && isCorrectAnswer ? 'bg-green-500/80 text-white' : 'bg-[var(--color-border)] group-hover:bg-black/10 dark:group-hover:bg-white/10'}`}>
-                    {String.fromCharCode(65 + index)}
-                  </div>
-                  <span>{option}</span>
-                </div>
-                {showFeedback && isCorrectAnswer && <CheckCircle className="w-5 h-5 text-green-400" />}
-                {showFeedback && isSelected && !isCorrectAnswer && <XCircle className="w-5 h-5 text-red-400" />}
-              </button>
-            );
-          })}
+          {renderAnswerInput(currentQuestion)}
         </div>
 
+        {currentAnswer && renderVerdict(currentQuestion, currentAnswer)}
+
         {showFeedback && currentQuestion.explanation && (
           <div className="mt-8 p-4 rounded-lg bg-yellow-50/70 dark:bg-[var(--color-bg)] animate-fade-in-up border border-yellow-200 dark:border-[var(--color-border)] flex items-start gap-3">
             <Lightbulb className="w-5 h-5 text-yellow-500 dark:text-yellow-400 flex-shrink-0 mt-0.5" />
@@ -126,6 +297,37 @@ export function QuizModal({ isOpen, onClose, session }: QuizModalProps) {
     );
   };
 
+  const renderOverviewContent = () => {
+    const best = Math.max(...session.attempts.map(a => a.score));
+    return (
+      <div className="animate-fadeIn">
+        <div className="text-center mb-6">
+          <History className="w-12 h-12 mx-auto text-[var(--color-text-secondary)] mb-3" />
+          <h3 className="text-xl font-bold text-[var(--color-text-primary)]">{session.title}</h3>
+          <p className="text-sm text-[var(--color-text-secondary)] mt-1">
+            {session.questions.length} questions · best score {formatScore(best)} / {session.questions.length}
+          </p>
+        </div>
+        <ul className="space-y-2">
+          {[...session.attempts].reverse().map((attempt, i) => (
+            <li key={attempt.id} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-[var(--color-card)] text-sm">
+              <span className="text-[var(--color-text-secondary)]">
+                #{session.attempts.length - i} · {formatDate(new Date(attempt.startedAt))}
+              </span>
+              <span className="flex items-center gap-3">
+                <span className="text-xs text-[var(--color-text-secondary)] tabular-nums">{formatDuration(attemptDuration(attempt))}</span>
+                <span className="font-bold tabular-nums">
+                  {formatScore(attempt.score)} / {session.questions.length}
+                </span>
+                {!attempt.completedAt && <span className="text-xs text-[var(--color-text-secondary)]">unfinished</span>}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
   const renderCompletedContent = () => (
     <div className="text-center flex flex-col items-center justify-center h-full p-4 sm:p-8 animate-fadeIn">
       <CheckCircle className="w-16 h-16 text-green-400 mb-4" />
@@ -134,7 +336,11 @@ export function QuizModal({ isOpen, onClose, session }: QuizModalProps) {
       </h3>
       <p className="text-base text-[var(--color-text-secondary)] mb-6">{getScoreFeedback}</p>
       <p className="text-6xl font-bold text-blue-500 dark:text-[var(--color-accent-bg)] mb-2">
-        {score} <span className="text-3xl text-[var(--color-text-secondary)]">/ {session.questions.length}</span>
+        {formatScore(score)} <span className="text-3xl text-[var(--color-text-secondary)]">/ {session.questions.length}</span>
+      </p>
+      <p className="text-sm text-[var(--color-text-secondary)]">
+        in {formatDuration(answers.reduce((sum, a) => sum + a.timeMs, 0))}
+        {session.attempts.length > 1 && ` · attempt ${session.attempts.length}`}
       </p>
     </div>
   );
@@ -151,7 +357,7 @@ export function QuizModal({ isOpen, onClose, session }: QuizModalProps) {
         <div className="absolute top-0 left-0 w-full bg-[var(--color-card)] h-1.5">
           <div
             className="bg-blue-500 dark:bg-[var(--color-accent-bg)] h-1.5 rounded-r-full transition-all duration-300 ease-out"
-            style={{ width: `${quizCompleted ? 100 : progress}%` }}
+            style={{ width: `${quizCompleted ? 100 : showOverview ? 0 : progress}%` }}
           />
         </div>
 
@@ -160,21 +366,35 @@ export function QuizModal({ isOpen, onClose, session }: QuizModalProps) {
           <h2 id="quiz-title" className="text-lg font-bold">
             Study Quiz
           </h2>
-          <button onClick={onClose} className="interactive-button w-8 h-8 flex items-center justify-center rounded-full hover:bg-[var(--color-card)] transition-colors" aria-label="Close quiz">
+          <button onClick={handleClose} className="interactive-button w-8 h-8 flex items-center justify-center rounded-full hover:bg-[var(--color-card)] transition-colors" aria-label="Close quiz">
             <X className="w-5 h-5" />
           </button>
         </div>
 
         {/* Content */}
         <div className="p-4 sm:p-6 md:p-8 overflow-y-auto">
-          {quizCompleted ? renderCompletedContent() : renderQuizContent()}
+          {showOverview ? renderOverviewContent() : quizCompleted ? renderCompletedContent() : renderQuizContent()}
         </div>
 
         {/* Footer */}
-        <div className="flex justify-end p-4 border-t border-[var(--color-border)] bg-gray-50/50 dark:bg-[var(--color-bg)]/50 mt-auto">
-          {quizCompleted ? (
-            <button onClick={onClose} className="w-full sm:w-auto interactive-button px-6 py-2.5 rounded-lg font-bold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)]">
-              Finish
+        <div className="flex justify-end gap-2 p-4 border-t border-[var(--color-border)] bg-gray-50/50 dark:bg-[var(--color-bg)]/50 mt-auto">
+          {showOverview || quizCompleted ? (
+            <>
+              <button onClick={startAttempt} className="flex-1 sm:flex-none interactive-button flex items-center justify-center gap-2 px-6 py-2.5 rounded-lg font-bold bg-[var(--color-card)] hover:bg-[var(--color-border)]">
+                <RotateCcw className="w-4 h-4" /> Retake
+              </button>
+              <button onClick={handleClose} className="flex-1 sm:flex-none interactive-button px-6 py-2.5 rounded-lg font-bold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)]">
+                {quizCompleted ? 'Finish' : 'Close'}
+              </button>
+            </>
+          ) : !showFeedback && currentQuestion && currentQuestion.type !== 'multiple-choice' && currentQuestion.type !== 'true-false' ? (
+            <button
+              onClick={handleCheckAnswer}
+              disabled={isGrading || (currentQuestion.type === 'multi-select' ? selectedOptions.length === 0 : !textAnswer.trim())}
+              className="w-full sm:w-auto interactive-button flex items-center justify-center gap-2 px-6 py-2.5 rounded-lg font-bold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)] disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isGrading && <Loader2 className="w-4 h-4 animate-spin" />}
+              {isGrading ? 'Grading…' : 'Check answer'}
             </button>
           ) : (
             <button
@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { X, ClipboardCheck } from 'lucide-react';
+import { QuizDifficulty, QuizOptions, QuizQuestionType } from '../types';
+import { MAX_QUIZ_QUESTIONS, MIN_QUIZ_QUESTIONS, quizQuestionTypes } from '../services/quiz';
+
+interface QuizSetupModalProps {
+  isOpen: boolean;
+  initialOptions: QuizOptions;
+  onClose: () => void;
+  onGenerate: (options: QuizOptions) => void;
+}
+
+const difficulties: QuizDifficulty[] = ['easy', 'medium', 'hard'];
+
+export function QuizSetupModal({ isOpen, initialOptions, onClose, onGenerate }: QuizSetupModalProps) {
+  const [options, setOptions] = useState(initialOptions);
+
+  useEffect(() => {
+    if (isOpen) setOptions(initialOptions);
+  }, [isOpen, initialOptions]);
+
+  if (!isOpen) return null;
+
+  // --- HANDLERS ---
+  const handleToggleType = (type: QuizQuestionType) => {
+    setOptions(prev => ({
+      ...prev,
+      types: prev.types.includes(type) ? prev.types.filter(t => t !== type) : [...prev.types, type],
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-2 sm:p-4 bg-black/70 backdrop-blur-sm animate-fadeIn">
+      <div
+        className="relative w-full max-w-md bg-[var(--color-sidebar)] border border-[var(--color-border)] rounded-2xl shadow-2xl flex flex-col animate-fade-in-up overflow-hidden max-h-[90vh] max-h-[90dvh]"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="quiz-setup-title"
+      >
+        <div className="p-4 sm:p-5 flex items-center justify-between border-b border-[var(--color-border)]">
+          <h2 id="quiz-setup-title" className="text-lg font-bold">
+            New Quiz
+          </h2>
+          <button onClick={onClose} className="interactive-button w-8 h-8 flex items-center justify-center rounded-full hover:bg-[var(--color-card)] transition-colors" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-6 overflow-y-auto">
+          <div>
+            <label htmlFor="quiz-count" className="flex justify-between text-sm font-semibold text-[var(--color-text-primary)] mb-2">
+              Questions <span className="tabular-nums">{options.count}</span>
+            </label>
+            <input
+              id="quiz-count"
+              type="range"
+              min={MIN_QUIZ_QUESTIONS}
+              max={MAX_QUIZ_QUESTIONS}
+              value={options.count}
+              onChange={(e) => setOptions(prev => ({ ...prev, count: Number(e.target.value) }))}
+              className="w-full accent-blue-500"
+            />
+          </div>
+
+          <div>
+            <p className="text-sm font-semibold text-[var(--color-text-primary)] mb-2">Difficulty</p>
+            <div className="grid grid-cols-3 gap-1 p-1 rounded-lg bg-[var(--color-card)]">
+              {difficulties.map(difficulty => (
+                <button
+                  key={difficulty}
+                  onClick={() => setOptions(prev => ({ ...prev, difficulty }))}
+                  className={`py-1.5 text-sm font-semibold rounded-md capitalize transition-colors ${options.difficulty === difficulty ? 'bg-[var(--color-sidebar)] shadow-sm text-[var(--color-text-primary)]' : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]'}`}
+                >
+                  {difficulty}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-semibold text-[var(--color-text-primary)] mb-2">Question types</p>
+            <div className="space-y-1">
+              {quizQuestionTypes.map(({ type, label }) => (
+                <label key={type} className="flex items-center gap-3 p-2 rounded-lg text-sm cursor-pointer hover:bg-[var(--color-card)]">
+                  <input type="checkbox" checked={options.types.includes(type)} onChange={() => handleToggleType(type)} className="w-4 h-4 accent-blue-500" />
+                  {label}
+                  {type === 'short-answer' && <span className="text-xs text-[var(--color-text-secondary)]">graded by the model</span>}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-[var(--color-border)] bg-gray-50/50 dark:bg-[var(--color-bg)]/50">
+          <button onClick={onClose} className="interactive-button px-6 py-2.5 rounded-lg font-bold bg-[var(--color-card)] hover:bg-[var(--color-border)]">
+            Cancel
+          </button>
+          <button
+            onClick={() => onGenerate(options)}
+            disabled={options.types.length === 0}
+            className="interactive-button flex items-center gap-2 px-6 py-2.5 rounded-lg font-bold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)] disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ClipboardCheck className="w-4 h-4" /> Generate
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { AlertTriangle, RefreshCcw, X } from 'lucide-react';
+import { ReplyError } from '../types';
+
+interface ReplyErrorBubbleProps {
+  error: ReplyError;
+  onRetry: () => void;
+  onDismiss: () => void;
+}
+
+const hints: Partial<Record<NonNullable<ReplyError['kind']>, string>> = {
+  auth: 'Update the API key in Settings, then retry.',
+  quota: 'Add credits, pick another model or configure a fallback in Settings.',
+  'rate-limit': 'The provider is busy. Wait a moment, then retry.',
+  network: 'Check your connection, then retry.',
+};
+
+export function ReplyErrorBubble({ error, onRetry, onDismiss }: ReplyErrorBubbleProps) {
+  const hint = error.kind ? hints[error.kind] : undefined;
+
+  return (
+    <div className="message-wrapper flex gap-3 sm:gap-4 justify-start" role="alert">
+      <div className="flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center bg-red-100 dark:bg-red-900/30">
+        <AlertTriangle className="w-4 h-4 text-red-600 dark:text-red-300" />
+      </div>
+      <div className="message-bubble relative p-3 sm:p-4 rounded-xl border border-red-300 bg-red-50 dark:border-red-500/40 dark:bg-red-900/20 text-sm">
+        <p className="font-medium text-red-700 dark:text-red-300">The reply could not be generated.</p>
+        <p className="mt-1 text-[var(--color-text-secondary)] break-words">{error.message}</p>
+        {hint && <p className="mt-1 text-[var(--color-text-secondary)]">{hint}</p>}
+        <div className="flex gap-2 mt-3">
+          <button
+            onClick={onRetry}
+            className="interactive-button flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg bg-[var(--color-card)] border border-[var(--color-border)] hover:bg-[var(--color-border)] text-[var(--color-text-primary)]"
+          >
+            <RefreshCcw className="w-3.5 h-3.5" /> Retry
+          </button>
+          <button
+            onClick={onDismiss}
+            className="interactive-button flex items-center gap-1.5 px-3 py-1.5 text-xs rounded-lg hover:bg-[var(--color-border)] text-[var(--color-text-secondary)]"
+          >
+            <X className="w-3.5 h-3.5" /> Dismiss
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,27 +1,37 @@
 import React, { useState } from 'react';
-import { X, Settings, Key, Download, Upload, Shield, Database, Eye, EyeOff, HelpCircle, Trash2, BookUser, Sun, Moon, Monitor } from 'lucide-react';
-import { APISettings, TutorMode } from '../types';
-import { storageUtils } from '../utils/storage';
+import { X, Settings, Key, Download, Upload, Shield, Database, Eye, EyeOff, HelpCircle, Trash2, BookUser, Sun, Moon, Monitor, Plus, Server, ArrowUp, LifeBuoy, RotateCcw } from 'lucide-react';
+import { APISettings, CustomEndpoint, ModelId } from '../types';
+import { ImportSnapshot, describeStorageError, storageUtils } from '../utils/storage';
+import { downloadFile, formatDate, generateId } from '../utils/helpers';
+import { BackupCollection, BackupData, BackupError, CollectionPreview, ImportMode, ParsedBackup, createBackup, mergeBackup, previewImport } from '../utils/backup';
+import { IMPORT_FILE_TYPES, parseImportFile } from '../utils/importers';
+import { ApiKeys, credentials, extractApiKeys, getProvider, listProviders, withApiKeys, withoutApiKeys } from '../services/providers';
+import { KeyVaultStatus } from '../services/keyVault';
+import { DecryptionError, EncryptedPayload, decryptText, encryptText } from '../utils/crypto';
+import { PersonaSettings } from './PersonaSettings';
+import { ImportPreview } from './ImportPreview';
+import { KeyEncryptionSettings } from './KeyEncryptionSettings';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   settings: APISettings;
   onSaveSettings: (settings: APISettings) => void;
+  onBeforeDataReplaced: () => Promise<void>; // Stops replies that would still write to the old data
+  onDataReplaced: (settings?: APISettings) => Promise<void>; // Reloads the app state after an import
+  keyVaultStatus: KeyVaultStatus;
+  onEnableKeyEncryption: (passphrase: string, settings: APISettings) => Promise<void>;
+  onDisableKeyEncryption: (settings: APISettings) => void;
+  onLockKeys: () => void;
+  onUnlockKeys: () => void;
 }
 
-const apiInfo = {
-  google: { name: 'Google AI', url: 'https://aistudio.google.com/app/apikey' },
-  zhipu: { name: 'ZhipuAI', url: 'https://open.bigmodel.cn/' },
-  mistral: { name: 'Mistral', url: 'https://console.mistral.ai/api-keys' },
-};
-
-const tutorModes = [
-    { id: 'standard', name: 'Standard Tutor', description: 'Neutral, explains clearly, step-by-step.', emoji: '📘' },
-    { id: 'exam', name: 'Exam Coach', description: 'Focus on practice questions & quick answers.', emoji: '🎓' },
-    { id: 'mentor', name: 'Friendly Mentor', description: 'Casual, motivating, makes analogies.', emoji: '🧑‍🏫' },
-    { id: 'creative', name: 'Creative Guide', description: 'Helps with essays, storytelling, ideas.', emoji: '✍️' },
-];
+interface PendingImport {
+  fileName: string;
+  backup: ParsedBackup;
+  current: BackupData;
+  preview: Record<BackupCollection, CollectionPreview>;
+}
 
 const themeOptions = [
     { id: 'light', name: 'Light', icon: Sun },
@@ -31,16 +41,29 @@ const themeOptions = [
 
 type ActiveTab = 'general' | 'keys' | 'data';
 
-export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: SettingsModalProps) {
+export function SettingsModal({ isOpen, onClose, settings, onSaveSettings, onBeforeDataReplaced, onDataReplaced, keyVaultStatus, onEnableKeyEncryption, onDisableKeyEncryption, onLockKeys, onUnlockKeys }: SettingsModalProps) {
   const [localSettings, setLocalSettings] = useState<APISettings>(settings);
   const [visibleApis, setVisibleApis] = useState<Record<string, boolean>>({});
   const [activeTab, setActiveTab] = useState<ActiveTab>('general');
   const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [isImporting, setIsImporting] = useState(false);
+  const [importSnapshot, setImportSnapshot] = useState<ImportSnapshot | null>(null);
+  const [includeKeysInBackup, setIncludeKeysInBackup] = useState(false);
+  const keysLocked = keyVaultStatus === 'locked';
 
   React.useEffect(() => {
     setLocalSettings(settings);
   }, [settings]);
 
+  React.useEffect(() => {
+    if (activeTab !== 'data') return;
+    storageUtils.getImportSnapshot()
+      .then(setImportSnapshot)
+      .catch(error => console.error('Error loading import snapshot:', error));
+  }, [activeTab]);
+
   const toggleApiVisibility = (id: string) => {
     setVisibleApis(prev => ({ ...prev, [id]: !prev[id] }));
   };
@@ -49,63 +72,156 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
     onSaveSettings(localSettings);
   };
   
-  const handleTutorModeChange = (modeId: TutorMode) => {
-    setLocalSettings(prev => ({...prev, selectedTutorMode: modeId}));
+  const handlePersonaChange = (changes: Partial<APISettings>) => {
+    setLocalSettings(prev => ({ ...prev, ...changes }));
   };
 
   const handleThemeChange = (theme: 'light' | 'dark' | 'system') => {
     setLocalSettings(prev => ({...prev, theme: theme }));
   };
 
-  const handleExportData = () => {
-    const data = {
-      conversations: storageUtils.getConversations(),
-      notes: storageUtils.getNotes(),
-      settings: storageUtils.getSettings(),
-      exportDate: new Date().toISOString(),
-    };
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `ai-tutor-backup-${new Date().toISOString().split('T')[0]}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+  const handleAddEndpoint = () => {
+    const endpoint: CustomEndpoint = { id: generateId(), label: '', baseUrl: 'http://localhost:11434/v1', apiKey: '', model: '' };
+    setLocalSettings(prev => ({ ...prev, customEndpoints: [...prev.customEndpoints, endpoint] }));
+  };
+
+  const handleUpdateEndpoint = (id: string, changes: Partial<CustomEndpoint>) => {
+    setLocalSettings(prev => ({
+      ...prev,
+      customEndpoints: prev.customEndpoints.map(e => (e.id === id ? { ...e, ...changes } : e)),
+    }));
+  };
+
+  const handleRemoveEndpoint = (id: string) => {
+    setLocalSettings(prev => ({ ...prev, customEndpoints: prev.customEndpoints.filter(e => e.id !== id) }));
+  };
+
+  const handleAddFallback = (id: ModelId) => {
+    setLocalSettings(prev => ({ ...prev, fallbackModels: [...prev.fallbackModels, id] }));
+  };
+
+  const handleRemoveFallback = (id: ModelId) => {
+    setLocalSettings(prev => ({ ...prev, fallbackModels: prev.fallbackModels.filter(f => f !== id) }));
+  };
+
+  const handleMoveFallbackUp = (index: number) => {
+    setLocalSettings(prev => {
+      const fallbackModels = [...prev.fallbackModels];
+      [fallbackModels[index - 1], fallbackModels[index]] = [fallbackModels[index], fallbackModels[index - 1]];
+      return { ...prev, fallbackModels };
+    });
+  };
+
+  const handleExportData = async () => {
+    try {
+      // Keys only leave the browser when asked for, and then encrypted. While locked
+      // they cannot be read, so the option is off rather than exporting an empty set.
+      let apiKeys: EncryptedPayload | undefined;
+      if (includeKeysInBackup && !keysLocked) {
+        const passphrase = window.prompt('Choose a passphrase for the API keys in this backup. You will need it to restore them.');
+        if (!passphrase) return;
+        apiKeys = await encryptText(JSON.stringify(extractApiKeys(settings)), passphrase);
+      }
+      const backup = createBackup(await storageUtils.getAllData(), storageUtils.getSettings(), apiKeys);
+      downloadFile(JSON.stringify(backup, null, 2), `ai-tutor-backup-${new Date().toISOString().split('T')[0]}.json`);
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      alert('Failed to export data.');
+    }
   };
 
+  // Backups and chats exported from other apps; nothing is written until the preview is confirmed
   const handleImportData = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
     const reader = new FileReader();
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       try {
-        const data = JSON.parse(e.target?.result as string);
-        if (data.conversations) storageUtils.saveConversations(data.conversations);
-        if (data.notes) storageUtils.saveNotes(data.notes);
-        if (data.settings) {
-          setLocalSettings(data.settings);
-          storageUtils.saveSettings(data.settings);
-        }
-        alert('Data imported successfully! The app will now reload.');
-        window.location.reload();
+        const backup = parseImportFile(e.target?.result as string, file.name, new Date(file.lastModified));
+        const current = await storageUtils.getAllData();
+        setPendingImport({ fileName: file.name, backup, current, preview: previewImport(current, backup.data) });
+        setImportMode('merge');
       } catch (error) {
-        console.error('Error importing data:', error);
-        alert('Failed to import data.');
+        console.error('Error reading backup:', error);
+        alert(error instanceof BackupError ? error.message : 'Failed to read the backup file.');
       }
     };
     reader.readAsText(file);
     event.target.value = '';
   };
 
+  const handleConfirmImport = async () => {
+    if (!pendingImport) return;
+    const { backup } = pendingImport;
+    let apiKeys: ApiKeys | undefined;
+    // Older backups may still hold the keys in plain text
+    const plainKeys = extractApiKeys({ ...withoutApiKeys(settings), ...backup.settings });
+    const hasKeys = !!backup.encryptedKeys || Object.keys(plainKeys.credentials).length > 0 || Object.keys(plainKeys.endpoints).length > 0;
+    // Keys cannot be sealed into a locked vault, so they are left out
+    if (importMode === 'replace' && keysLocked && hasKeys
+      && !window.confirm('Your API keys are locked, so the keys in this backup will not be restored. Import anyway?')) return;
+    if (importMode === 'replace' && backup.encryptedKeys && !keysLocked) {
+      const passphrase = window.prompt('This backup contains encrypted API keys. Enter their passphrase to restore them, or leave it empty to skip them.');
+      if (passphrase) {
+        try {
+          apiKeys = JSON.parse(await decryptText(backup.encryptedKeys, passphrase)) as ApiKeys;
+        } catch (error) {
+          console.error('Error decrypting backup keys:', error);
+          alert(error instanceof DecryptionError ? 'Wrong passphrase for the API keys in this backup.' : 'Failed to read the API keys in this backup.');
+          return;
+        }
+      }
+    }
+
+    setIsImporting(true);
+    try {
+      // Read again: replies may have finished since the preview was made
+      await onBeforeDataReplaced();
+      const current = await storageUtils.getAllData();
+      const snapshot = { createdAt: new Date(), data: current, settings: withoutApiKeys(storageUtils.getSettings()) };
+      await storageUtils.saveImportSnapshot(snapshot);
+      await storageUtils.replaceAllData(importMode === 'merge' ? mergeBackup(current, backup.data) : backup.data);
+      // Merging keeps the current settings; a replace restores the ones in the file
+      const replacedSettings = { ...snapshot.settings, ...backup.settings };
+      await onDataReplaced(importMode === 'replace' && (backup.settings || apiKeys) ? withApiKeys(replacedSettings, apiKeys ?? { credentials: {}, endpoints: {} }) : undefined);
+      setImportSnapshot(snapshot);
+      setPendingImport(null);
+    } catch (error) {
+      console.error('Error importing data:', error);
+      alert(`Failed to import data: ${describeStorageError(error)}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleUndoImport = async () => {
+    if (!importSnapshot || !window.confirm(`Restore your data as it was on ${formatDate(importSnapshot.createdAt)}? Changes made since the import will be lost.`)) return;
+    try {
+      await onBeforeDataReplaced();
+      await storageUtils.replaceAllData(importSnapshot.data);
+      await onDataReplaced(importSnapshot.settings);
+      await storageUtils.deleteImportSnapshot();
+      setImportSnapshot(null);
+    } catch (error) {
+      console.error('Error restoring snapshot:', error);
+      alert(`Failed to restore the snapshot: ${describeStorageError(error)}`);
+    }
+  };
+
   const triggerFileInput = () => {
     fileInputRef.current?.click();
   };
 
-  const handleClearData = () => {
+  const handleClearData = async () => {
     if (window.confirm('Are you sure you want to delete all conversations and settings? This action cannot be undone.')) {
-      storageUtils.clearAllData();
-      alert('All data has been cleared. The app will now reload.');
-      window.location.reload();
+      try {
+        await storageUtils.clearAllData();
+        alert('All data has been cleared. The app will now reload.');
+        window.location.reload();
+      } catch (error) {
+        console.error('Error clearing data:', error);
+        alert('Failed to clear data.');
+      }
     }
   };
 
@@ -170,36 +286,28 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
                 </div>
               </div>
 
-              <div>
-                <h3 className="text-lg font-semibold text-[var(--color-text-primary)]">
-                  Tutor Mode
-                </h3>
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-3">
-                  {tutorModes.map(mode => (
-                    <button
-                      key={mode.id}
-                      onClick={() => handleTutorModeChange(mode.id as TutorMode)}
-                      className={`p-4 border rounded-lg text-left transition-all duration-200 ${localSettings.selectedTutorMode === mode.id ? 'bg-[var(--color-card)] border-blue-500 ring-2 ring-blue-500/50' : 'bg-transparent border-[var(--color-border)] hover:bg-[var(--color-card)] hover:border-gray-500'}`}
-                    >
-                      <p className="text-lg">{mode.emoji} <span className="font-semibold">{mode.name}</span></p>
-                      <p className="text-sm text-[var(--color-text-secondary)] mt-1">{mode.description}</p>
-                    </button>
-                  ))}
-                </div>
-              </div>
+              <PersonaSettings settings={localSettings} onChange={handlePersonaChange} />
             </div>
           )}
 
           {activeTab === 'keys' && (
             <div className="space-y-4 animate-fadeIn">
-              {Object.keys(apiInfo).map(key => {
-                const id = key as keyof typeof apiInfo;
-                const apiKeyId = `${id}ApiKey` as keyof APISettings;
+              <KeyEncryptionSettings
+                status={keyVaultStatus}
+                autoLockMinutes={localSettings.autoLockMinutes}
+                onAutoLockChange={(autoLockMinutes) => setLocalSettings(prev => ({ ...prev, autoLockMinutes }))}
+                onEnable={(passphrase) => onEnableKeyEncryption(passphrase, localSettings)}
+                onDisable={() => onDisableKeyEncryption(localSettings)}
+                onLock={onLockKeys}
+                onUnlock={onUnlockKeys}
+              />
+              {credentials.map(info => {
+                const apiKeyId = info.key;
                 return (
-                  <div key={id}>
+                  <div key={apiKeyId}>
                     <label htmlFor={apiKeyId} className="text-sm font-medium text-[var(--color-text-secondary)] mb-2 flex items-center gap-1.5">
-                      {apiInfo[id].name} API Key
-                      <a href={apiInfo[id].url} target="_blank" rel="noopener noreferrer" title={`Get ${apiInfo[id].name} key`}>
+                      {info.name} API Key
+                      <a href={info.url} target="_blank" rel="noopener noreferrer" title={`Get ${info.name} key`}>
                         <HelpCircle className="w-3.5 h-3.5 text-[var(--color-text-placeholder)] hover:text-[var(--color-text-primary)]" />
                       </a>
                     </label>
@@ -207,19 +315,124 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
                       <Key className="w-4 h-4 text-[var(--color-text-secondary)] absolute top-1/2 left-3 -translate-y-1/2" />
                       <input
                         id={apiKeyId}
-                        type={visibleApis[id] ? 'text' : 'password'}
+                        type={visibleApis[apiKeyId] ? 'text' : 'password'}
                         value={localSettings[apiKeyId]}
                         onChange={(e) => setLocalSettings(prev => ({ ...prev, [apiKeyId]: e.target.value }))}
-                        placeholder={`${apiInfo[id].name} key`}
-                        className="w-full pl-9 pr-10 py-2 border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+                        placeholder={keysLocked ? 'Locked' : `${info.name} key`}
+                        disabled={keysLocked}
+                        className="w-full pl-9 pr-10 py-2 border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors disabled:opacity-50"
                       />
-                      <button type="button" onClick={() => toggleApiVisibility(id)} className="absolute top-1/2 right-3 -translate-y-1/2 text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]">
-                        {visibleApis[id] ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                      <button type="button" onClick={() => toggleApiVisibility(apiKeyId)} className="absolute top-1/2 right-3 -translate-y-1/2 text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]">
+                        {visibleApis[apiKeyId] ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
                       </button>
                     </div>
                   </div>
                 )
               })}
+
+              <div className="pt-4 border-t border-[var(--color-border)]">
+                <div className="flex items-center justify-between mb-1">
+                  <h3 className="font-semibold flex items-center gap-2"><Server className="w-4 h-4" /> Custom Endpoints</h3>
+                  <button onClick={handleAddEndpoint} className="flex items-center gap-1 px-2 py-1 text-sm rounded-lg hover:bg-[var(--color-card)] transition-colors">
+                    <Plus className="w-4 h-4" /> Add
+                  </button>
+                </div>
+                <p className="text-xs text-[var(--color-text-secondary)] mb-3">
+                  Any OpenAI-compatible server, e.g. Ollama, llama.cpp or vLLM. The API key is optional.
+                </p>
+                <div className="space-y-3">
+                  {localSettings.customEndpoints.map(endpoint => (
+                    <div key={endpoint.id} className="p-3 border border-[var(--color-border)] rounded-lg space-y-2">
+                      <div className="flex gap-2">
+                        <input
+                          value={endpoint.label}
+                          onChange={(e) => handleUpdateEndpoint(endpoint.id, { label: e.target.value })}
+                          placeholder="Display label"
+                          className="flex-1 px-3 py-1.5 text-sm border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                        <button
+                          onClick={() => handleRemoveEndpoint(endpoint.id)}
+                          className="p-2 rounded-lg text-red-500 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30"
+                          title="Remove endpoint"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <input
+                        value={endpoint.baseUrl}
+                        onChange={(e) => handleUpdateEndpoint(endpoint.id, { baseUrl: e.target.value })}
+                        placeholder="Base URL, e.g. http://localhost:11434/v1"
+                        className="w-full px-3 py-1.5 text-sm border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <div className="grid grid-cols-2 gap-2">
+                        <input
+                          value={endpoint.model}
+                          onChange={(e) => handleUpdateEndpoint(endpoint.id, { model: e.target.value })}
+                          placeholder="Model, e.g. llama3.1"
+                          className="px-3 py-1.5 text-sm border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                        <input
+                          type="password"
+                          value={endpoint.apiKey}
+                          onChange={(e) => handleUpdateEndpoint(endpoint.id, { apiKey: e.target.value })}
+                          placeholder={keysLocked ? 'Locked' : 'API key (optional)'}
+                          disabled={keysLocked}
+                          className="px-3 py-1.5 text-sm border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+                        />
+                      </div>
+                      <input
+                        type="number"
+                        min={1024}
+                        step={1024}
+                        value={endpoint.contextWindow ?? ''}
+                        onChange={(e) => handleUpdateEndpoint(endpoint.id, { contextWindow: e.target.value ? Number(e.target.value) : undefined })}
+                        placeholder="Context window in tokens (default 8192)"
+                        className="w-full px-3 py-1.5 text-sm border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="pt-4 border-t border-[var(--color-border)]">
+                <h3 className="font-semibold flex items-center gap-2 mb-1"><LifeBuoy className="w-4 h-4" /> Fallback Models</h3>
+                <p className="text-xs text-[var(--color-text-secondary)] mb-3">
+                  Tried in this order when the selected model keeps failing, e.g. when it is rate limited or out of quota. Models without an API key are skipped.
+                </p>
+                <div className="space-y-2">
+                  {localSettings.fallbackModels.map((id, index) => (
+                    <div key={id} className="flex items-center gap-2 px-3 py-1.5 border border-[var(--color-border)] rounded-lg text-sm">
+                      <span className="text-[var(--color-text-secondary)] tabular-nums">{index + 1}.</span>
+                      <span className="flex-1 truncate">{getProvider(id, localSettings)?.name ?? id}</span>
+                      <button
+                        onClick={() => handleMoveFallbackUp(index)}
+                        disabled={index === 0}
+                        className="p-1 rounded hover:bg-[var(--color-card)] disabled:opacity-30 disabled:cursor-not-allowed"
+                        title="Try earlier"
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleRemoveFallback(id)}
+                        className="p-1 rounded text-red-500 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30"
+                        title="Remove fallback"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && handleAddFallback(e.target.value)}
+                    className="w-full px-3 py-1.5 text-sm border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">Add a fallback model…</option>
+                    {listProviders(localSettings)
+                      .filter(p => !localSettings.fallbackModels.includes(p.id))
+                      .map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                </div>
+              </div>
             </div>
           )}
 
@@ -230,8 +443,42 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
                 <div className="grid grid-cols-2 gap-2">
                   <button onClick={handleExportData} className="flex items-center justify-center gap-2 p-3 border border-[var(--color-border)] rounded-lg hover:bg-[var(--color-card)] transition-colors"> <Download className="w-4 h-4"/> Export</button>
                   <button onClick={triggerFileInput} className="flex items-center justify-center gap-2 p-3 border border-[var(--color-border)] rounded-lg hover:bg-[var(--color-card)] transition-colors"> <Upload className="w-4 h-4"/> Import</button>
-                  <input type="file" ref={fileInputRef} onChange={handleImportData} accept=".json" className="hidden"/>
+                  <input type="file" ref={fileInputRef} onChange={handleImportData} accept={IMPORT_FILE_TYPES} className="hidden"/>
                 </div>
+                <label className={`mt-3 flex items-center gap-2 text-sm ${keysLocked ? 'opacity-50' : 'cursor-pointer'}`}>
+                  <input
+                    type="checkbox"
+                    checked={includeKeysInBackup && !keysLocked}
+                    onChange={(e) => setIncludeKeysInBackup(e.target.checked)}
+                    disabled={keysLocked}
+                    className="accent-blue-500"
+                  />
+                  Include API keys in the export, encrypted with a passphrase
+                </label>
+                {keysLocked && <p className="mt-1 text-xs text-[var(--color-text-secondary)]">Unlock your API keys to include them in the export.</p>}
+                <p className="mt-2 text-xs text-[var(--color-text-secondary)]">Import also reads ChatGPT's conversations.json, Markdown transcripts and OpenAI message lists.</p>
+                {pendingImport && (
+                  <div className="mt-3">
+                    <ImportPreview
+                      fileName={pendingImport.fileName}
+                      backup={pendingImport.backup}
+                      preview={pendingImport.preview}
+                      mode={importMode}
+                      onModeChange={setImportMode}
+                      isImporting={isImporting}
+                      onConfirm={handleConfirmImport}
+                      onCancel={() => setPendingImport(null)}
+                    />
+                  </div>
+                )}
+                {importSnapshot && !pendingImport && (
+                  <div className="mt-3 flex items-center justify-between gap-3 p-3 border border-[var(--color-border)] rounded-lg text-sm">
+                    <span className="text-[var(--color-text-secondary)]">Snapshot from before the import on {formatDate(importSnapshot.createdAt)}</span>
+                    <button onClick={handleUndoImport} className="flex-shrink-0 flex items-center gap-1.5 px-3 py-1.5 rounded-lg font-semibold hover:bg-[var(--color-card)] transition-colors">
+                      <RotateCcw className="w-4 h-4" /> Undo import
+                    </button>
+                  </div>
+                )}
               </div>
                <div>
                 <h3 className="font-semibold mb-2 text-red-500 dark:text-red-400">Danger Zone</h3>
@@ -1,48 +1,135 @@
 import React, { useState, useMemo } from 'react';
 import {
   Plus, MessageSquare, Settings, Trash2, X, ChevronLeft, ChevronRight,
-  Sparkles, Brain, Cloud, Terminal, Search, Pin, Edit, Book
+  Search, Pin, Edit, Book, Loader2, ClipboardCheck, WalletCards, User, Sparkles,
+  FolderPlus, CheckSquare, Check, Tag
 } from 'lucide-react';
-import { Conversation, Note } from '../types';
+import { APISettings, Conversation, Folder, LibraryItemKind, Note, ModelId, Persona, StudySession } from '../types';
+import { formatDate, normalizeTag } from '../utils/helpers';
+import { listProviders } from '../services/providers';
+import { resolvePersona } from '../services/aiService';
+import { formatScore } from '../services/quiz';
+import { SnippetPart, buildSearchIndex, searchIndex } from '../utils/search';
 import { useTheme } from '../context/ThemeContext'; // Import the useTheme hook
+import { DRAG_TYPE, DragPayload, FolderSection } from './FolderSection';
+import { ExportMenu } from './ExportMenu';
+import { ExportFormat } from '../utils/export';
 
 // ... (interface props remain the same)
 interface SidebarProps {
   conversations: Conversation[];
+  generatingConversationIds: Set<string>;
   notes: Note[];
-  activeView: 'chat' | 'note';
+  quizzes: StudySession[];
+  activeView: 'chat' | 'note' | 'review';
   currentConversationId: string | null;
   currentNoteId: string | null;
   onNewConversation: () => void;
   onSelectConversation: (id: string) => void;
   onSelectNote: (id: string | null) => void;
+  onOpenSearchResult: (conversationId: string, messageId: string) => void;
   onDeleteConversation: (id: string) => void;
   onRenameConversation: (id: string, newTitle: string) => void;
   onTogglePinConversation: (id: string) => void;
   onDeleteNote: (id: string) => void;
+  onNewNote: () => void;
+  folders: Folder[];
+  onCreateFolder: (name: string) => void;
+  onRenameFolder: (id: string, name: string) => void;
+  onDeleteFolder: (id: string) => void;
+  onMoveItems: (kind: LibraryItemKind, ids: string[], folderId: string | null) => void;
+  onTagItems: (kind: LibraryItemKind, ids: string[], add: string[], remove: string[]) => void;
+  onDeleteItems: (kind: LibraryItemKind, ids: string[]) => void;
+  onExportItems: (kind: LibraryItemKind, ids: string[], format: ExportFormat) => void;
+  onOpenQuiz: (id: string) => void;
+  onDeleteQuiz: (id: string) => void;
+  dueFlashcardCount: number;
+  onOpenReview: () => void;
+  onGenerateFlashcardsFromNote: (noteId: string) => void;
+  isFlashcardsLoading: boolean;
   onOpenSettings: () => void;
-  settings: { selectedModel: string };
-  onModelChange: (model: any) => void;
+  settings: Pick<APISettings, 'selectedModel' | 'customEndpoints' | 'selectedTutorMode' | 'customPersonas'>;
+  onModelChange: (model: ModelId) => void;
   onCloseSidebar: () => void;
   isSidebarOpen: boolean;
   isFolded?: boolean;
   onToggleFold?: () => void;
 }
 
+const Snippet = ({ parts }: { parts: SnippetPart[] }) => (
+  <>
+    {parts.map((part, i) => part.highlight
+      ? <mark key={i} className="bg-yellow-200/80 dark:bg-yellow-500/30 text-inherit rounded-sm">{part.text}</mark>
+      : <React.Fragment key={i}>{part.text}</React.Fragment>)}
+  </>
+);
+
+const TagList = ({ tags }: { tags?: string[] }) => (tags && tags.length > 0 ? (
+  <span className="flex flex-wrap gap-1 mt-1">
+    {tags.map(tag => (
+      <span key={tag} className="text-[10px] leading-none px-1.5 py-0.5 rounded-full bg-[var(--color-border)]/60 opacity-80">#{tag}</span>
+    ))}
+  </span>
+) : null);
+
+const PersonaBadge = ({ persona }: { persona: Persona }) => (
+  <span
+    className="flex-shrink-0 text-xs leading-none px-1 py-0.5 rounded bg-[var(--color-border)]/60"
+    title={`Persona: ${persona.name}`}
+    aria-label={`Persona: ${persona.name}`}
+  >
+    {persona.emoji}
+  </span>
+);
+
+// One bar per finished attempt, so progress on a topic shows at a glance
+const AttemptTrend = ({ quiz }: { quiz: StudySession }) => {
+  const finished = quiz.attempts.filter(a => a.completedAt).slice(-8);
+  if (finished.length < 2) return null;
+  return (
+    <span className="flex items-end gap-0.5 h-4" aria-hidden="true">
+      {finished.map(a => (
+        <span
+          key={a.id}
+          className="w-1 rounded-sm bg-blue-500 dark:bg-[var(--color-accent-bg)] opacity-80"
+          style={{ height: `${Math.max(15, (a.score / quiz.totalQuestions) * 100)}%` }}
+        />
+      ))}
+    </span>
+  );
+};
 
 export function Sidebar({
   conversations,
+  generatingConversationIds,
   notes,
+  quizzes,
   activeView,
   currentConversationId,
   currentNoteId,
   onNewConversation,
   onSelectConversation,
   onSelectNote,
+  onOpenSearchResult,
   onDeleteConversation,
   onRenameConversation,
   onTogglePinConversation,
   onDeleteNote,
+  onNewNote,
+  folders,
+  onCreateFolder,
+  onRenameFolder,
+  onDeleteFolder,
+  onMoveItems,
+  onTagItems,
+  onDeleteItems,
+  onExportItems,
+  onOpenQuiz,
+  onDeleteQuiz,
+  dueFlashcardCount,
+  onOpenReview,
+  onGenerateFlashcardsFromNote,
+  isFlashcardsLoading,
   onOpenSettings,
   settings,
   onModelChange,
@@ -55,30 +142,49 @@ export function Sidebar({
   const [searchQuery, setSearchQuery] = useState('');
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingTitle, setEditingTitle] = useState('');
-  const [view, setView] = useState<'chats' | 'notes'>('chats');
+  const [view, setView] = useState<'chats' | 'notes' | 'quizzes'>('chats');
+  const [activeTags, setActiveTags] = useState<string[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null); // null outside selection mode
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
 
-  const models = [
-    { id: 'google', icon: Sparkles, name: 'Gemma' },
-    { id: 'zhipu', icon: Brain, name: 'ZhipuAI' },
-    { id: 'mistral-small', icon: Cloud, name: 'Mistral' },
-    { id: 'mistral-codestral', icon: Terminal, name: 'Codestral' },
-  ];
+  const models = useMemo(() => listProviders(settings), [settings]);
 
   const filteredConversations = useMemo(() => {
     return conversations
       .filter(c => c.title.toLowerCase().includes(searchQuery.toLowerCase()))
+      .filter(c => activeTags.every(tag => c.tags?.includes(tag)))
       .sort((a, b) => {
         if (a.isPinned !== b.isPinned) return a.isPinned ? -1 : 1;
         return new Date(b.updatedAt || b.createdAt).getTime() - new Date(a.updatedAt || a.createdAt).getTime();
       });
-  }, [conversations, searchQuery]);
+  }, [conversations, searchQuery, activeTags]);
 
-  const filteredNotes = useMemo(() => {
-    return notes.filter(n =>
-      n.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      n.content.toLowerCase().includes(searchQuery.toLowerCase())
-    );
-  }, [notes, searchQuery]);
+  // The index is only built while searching, and rebuilt when chats or notes change
+  const isSearching = searchQuery.trim() !== '';
+  const index = useMemo(() => (isSearching ? buildSearchIndex(conversations, notes) : null), [conversations, notes, isSearching]);
+  const searchResults = useMemo(() => (index ? searchIndex(index, searchQuery) : []), [index, searchQuery]);
+  const messageResults = useMemo(() => searchResults.filter(r => r.document.kind === 'message'), [searchResults]);
+
+  const filteredNotes = useMemo((): { note: Note; snippet?: SnippetPart[] }[] => {
+    const tagged = notes.filter(n => activeTags.every(tag => n.tags?.includes(tag)));
+    if (!isSearching) return tagged.map(note => ({ note }));
+    const byId = new Map(tagged.map(n => [n.id, n]));
+    return searchResults
+      .filter(r => r.document.kind === 'note' && byId.has(r.document.id))
+      .map(r => ({ note: byId.get(r.document.id)!, snippet: r.snippet }));
+  }, [notes, isSearching, searchResults, activeTags]);
+
+  // Tags in use in the current list, offered as filter chips
+  const availableTags = useMemo(() => {
+    const items: { tags?: string[] }[] = view === 'notes' ? notes : view === 'chats' ? conversations : [];
+    return Array.from(new Set(items.flatMap(item => item.tags ?? []))).sort();
+  }, [view, conversations, notes]);
+
+  const isGrouped = !isFolded && !isSearching && folders.length > 0;
+
+  const filteredQuizzes = useMemo(() => {
+    return quizzes.filter(q => q.title.toLowerCase().includes(searchQuery.toLowerCase()));
+  }, [quizzes, searchQuery]);
 
   const handleStartEditing = (conversation: Conversation) => {
     setEditingId(conversation.id);
@@ -102,6 +208,266 @@ export function Sidebar({
     }
   };
 
+  // --- SELECTION & FOLDER HANDLERS ---
+  const selectionKind: LibraryItemKind = view === 'notes' ? 'note' : 'conversation';
+
+  const handleChangeView = (next: typeof view) => {
+    setView(next);
+    setSelectedIds(null);
+    setActiveTags([]);
+  };
+
+  const handleToggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleDragStart = (e: React.DragEvent, kind: LibraryItemKind, id: string) => {
+    // Dragging a selected item carries the whole selection along
+    const ids = selectedIds?.has(id) ? Array.from(selectedIds) : [id];
+    e.dataTransfer.setData(DRAG_TYPE, JSON.stringify({ kind, ids } satisfies DragPayload));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleEditTags = (kind: LibraryItemKind, ids: string[], current: string[] = []) => {
+    const input = window.prompt(
+      ids.length > 1 ? 'Add tags, separated by commas. Prefix a tag with - to remove it.' : 'Tags, separated by commas',
+      ids.length > 1 ? '' : current.join(', ')
+    );
+    if (input === null) return;
+    const entries = input.split(',').map(t => t.trim()).filter(Boolean);
+    if (ids.length > 1) {
+      onTagItems(kind, ids, entries.filter(t => !t.startsWith('-')).map(normalizeTag), entries.filter(t => t.startsWith('-')).map(t => normalizeTag(t.slice(1))));
+    } else {
+      const next = entries.map(normalizeTag);
+      onTagItems(kind, ids, next, current.filter(t => !next.includes(t)));
+    }
+  };
+
+  const handleCreateFolder = () => {
+    const name = window.prompt('Folder name, e.g. a course or subject')?.trim();
+    if (name) onCreateFolder(name);
+  };
+
+  const handleRenameFolder = (folder: Folder) => {
+    const name = window.prompt('Rename folder', folder.name)?.trim();
+    if (name && name !== folder.name) onRenameFolder(folder.id, name);
+  };
+
+  const handleDeleteFolder = (folder: Folder) => {
+    if (window.confirm(`Delete the folder "${folder.name}"? Its chats and notes are kept and become unfiled.`)) onDeleteFolder(folder.id);
+  };
+
+  const handleToggleCollapsed = (key: string) => {
+    setCollapsedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleBulkMove = (folderId: string) => {
+    if (!selectedIds || selectedIds.size === 0) return;
+    onMoveItems(selectionKind, Array.from(selectedIds), folderId === 'unfiled' ? null : folderId);
+  };
+
+  const handleBulkDelete = () => {
+    if (!selectedIds || selectedIds.size === 0) return;
+    const label = selectionKind === 'note' ? 'note' : 'chat';
+    if (!window.confirm(`Delete ${selectedIds.size} ${label}${selectedIds.size === 1 ? '' : 's'}? This cannot be undone.`)) return;
+    onDeleteItems(selectionKind, Array.from(selectedIds));
+    setSelectedIds(null);
+  };
+
+  const renderGroups = <T,>(kind: LibraryItemKind, items: T[], getFolderId: (item: T) => string | undefined, renderItem: (item: T) => React.ReactNode) => {
+    const folderIds = new Set(folders.map(f => f.id));
+    const groups: { folder: Folder | null; items: T[] }[] = [
+      ...folders.map(folder => ({ folder, items: items.filter(item => getFolderId(item) === folder.id) })),
+      { folder: null, items: items.filter(item => !folderIds.has(getFolderId(item) ?? '')) },
+    ];
+    return groups.map(({ folder, items: groupItems }) => {
+      const key = folder?.id ?? 'unfiled';
+      return (
+        <FolderSection
+          key={key}
+          folder={folder}
+          count={groupItems.length}
+          isCollapsed={collapsedGroups.has(key)}
+          onToggle={() => handleToggleCollapsed(key)}
+          onDropItems={(payload) => payload.kind === kind && onMoveItems(kind, payload.ids, folder?.id ?? null)}
+          onRename={folder ? () => handleRenameFolder(folder) : undefined}
+          onDelete={folder ? () => handleDeleteFolder(folder) : undefined}
+        >
+          {groupItems.map(renderItem)}
+        </FolderSection>
+      );
+    });
+  };
+
+  const renderCheckbox = (id: string) => selectedIds && (
+    <span className={`flex-shrink-0 w-4 h-4 rounded border flex items-center justify-center ${selectedIds.has(id) ? 'bg-blue-500 border-blue-500 text-white' : 'border-[var(--color-text-secondary)]'}`}>
+      {selectedIds.has(id) && <Check className="w-3 h-3" />}
+    </span>
+  );
+
+  const renderConversation = (conversation: Conversation) => (
+    <div
+      key={conversation.id}
+      onClick={() => (selectedIds ? handleToggleSelected(conversation.id) : onSelectConversation(conversation.id))}
+      draggable={!isFolded && editingId !== conversation.id}
+      onDragStart={(e) => handleDragStart(e, 'conversation', conversation.id)}
+      className={`group flex items-center gap-2 ${isFolded ? 'justify-center p-2' : 'p-2.5'} rounded-lg cursor-pointer transition-colors relative ${
+        activeView === 'chat' && currentConversationId === conversation.id && !selectedIds
+          ? 'bg-[var(--color-accent-bg)] text-[var(--color-accent-text)]'
+          : 'hover:bg-[var(--color-card)] text-[var(--color-text-primary)]'
+      }`}
+      title={isFolded ? conversation.title : undefined}
+    >
+      {conversation.isPinned && <Pin className="w-3 h-3 absolute top-1.5 left-1.5 text-yellow-400" />}
+      {renderCheckbox(conversation.id) ?? (generatingConversationIds.has(conversation.id)
+        ? <Loader2 className="w-4 h-4 flex-shrink-0 animate-spin" aria-label="Generating" />
+        : <MessageSquare className="w-4 h-4 flex-shrink-0" />)}
+      {!isFolded && (
+        <>
+          {editingId === conversation.id ? (
+            <input
+              type="text"
+              value={editingTitle}
+              onChange={(e) => setEditingTitle(e.target.value)}
+              onBlur={handleSaveEdit}
+              onKeyDown={handleKeyDown}
+              className="flex-1 text-sm font-semibold bg-transparent border-b border-[var(--color-border)] focus:outline-none"
+              autoFocus
+              onClick={(e) => e.stopPropagation()}
+            />
+          ) : (
+            <div className="flex-1 min-w-0">
+              <span className="flex items-center gap-1.5 text-sm font-semibold">
+                <span className="truncate">{conversation.title}</span>
+                <PersonaBadge persona={resolvePersona(conversation, settings)} />
+              </span>
+              {generatingConversationIds.has(conversation.id) && (
+                <span className="block text-xs opacity-70 animate-pulse">generating…</span>
+              )}
+              <TagList tags={conversation.tags} />
+            </div>
+          )}
+          {!selectedIds && (
+            <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onTogglePinConversation(conversation.id);
+                }}
+                className={`p-1 rounded ${
+                  currentConversationId === conversation.id ? 'hover:bg-black/10 dark:hover:bg-white/10' : 'hover:bg-[var(--color-border)]'
+                }`}
+                title={conversation.isPinned ? 'Unpin' : 'Pin'}
+              >
+                <Pin className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleEditTags('conversation', [conversation.id], conversation.tags);
+                }}
+                className={`p-1 rounded ${
+                  currentConversationId === conversation.id ? 'hover:bg-black/10 dark:hover:bg-white/10' : 'hover:bg-[var(--color-border)]'
+                }`}
+                title="Tags"
+              >
+                <Tag className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleStartEditing(conversation);
+                }}
+                className={`p-1 rounded ${
+                  currentConversationId === conversation.id ? 'hover:bg-black/10 dark:hover:bg-white/10' : 'hover:bg-[var(--color-border)]'
+                }`}
+                title="Rename"
+              >
+                <Edit className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDeleteConversation(conversation.id);
+                }}
+                className={`p-1 rounded text-red-500 dark:text-red-400 ${
+                  currentConversationId === conversation.id ? 'hover:bg-black/10 dark:hover:bg-white/10' : 'hover:bg-red-100 dark:hover:bg-red-900/30'
+                }`}
+                title="Delete"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+
+  const renderNote = ({ note, snippet }: { note: Note; snippet?: SnippetPart[] }) => (
+    <div
+      key={note.id}
+      onClick={() => (selectedIds ? handleToggleSelected(note.id) : onSelectNote(note.id))}
+      draggable
+      onDragStart={(e) => handleDragStart(e, 'note', note.id)}
+      className={`group p-2.5 rounded-lg cursor-pointer ${
+        activeView === 'note' && currentNoteId === note.id && !selectedIds
+          ? 'bg-[var(--color-accent-bg)] text-[var(--color-accent-text)]'
+          : 'hover:bg-[var(--color-card)] text-[var(--color-text-primary)]'
+      }`}
+    >
+      <div className="flex items-start justify-between gap-2">
+        {renderCheckbox(note.id)}
+        <span className="flex-1 text-sm font-semibold truncate pr-2">{note.title}</span>
+        {!selectedIds && (
+          <>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                handleEditTags('note', [note.id], note.tags);
+              }}
+              className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-[var(--color-border)]"
+              title="Tags"
+            >
+              <Tag className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onGenerateFlashcardsFromNote(note.id);
+              }}
+              className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-[var(--color-border)]"
+              title={isFlashcardsLoading ? 'Stop making flashcards' : 'Make flashcards'}
+            >
+              {isFlashcardsLoading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <WalletCards className="w-3.5 h-3.5" />}
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onDeleteNote(note.id);
+              }}
+              className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-red-100 dark:hover:bg-red-900/30 text-red-500 dark:text-red-400"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </>
+        )}
+      </div>
+      <p className="text-xs opacity-70 mt-1 line-clamp-2">{snippet ? <Snippet parts={snippet} /> : note.content}</p>
+      <TagList tags={note.tags} />
+    </div>
+  );
+
   const sidebarClasses = `bg-[var(--color-sidebar)] flex flex-col h-full border-r border-[var(--color-border)] sidebar transition-all duration-300 ease-in-out fixed lg:static z-50 ${isSidebarOpen ? 'sidebar-open' : 'hidden lg:flex'} ${isFolded ? 'w-14' : 'w-64'}`;
 
   return (
@@ -160,7 +526,7 @@ export function Sidebar({
               {models.map(model => (
                 <button
                   key={model.id}
-                  onClick={() => onModelChange(model.id as any)}
+                  onClick={() => onModelChange(model.id)}
                   className={`w-full flex justify-center items-center p-2 rounded-lg transition-all duration-200 border ${
                     settings.selectedModel === model.id
                       ? 'bg-[var(--color-card)] border-[var(--color-border)] text-[var(--color-text-primary)]'
@@ -175,13 +541,13 @@ export function Sidebar({
           ) : (
             <div className="space-y-2">
               <p className="text-xs font-semibold text-[var(--color-text-secondary)] uppercase tracking-wider px-1">
-                AI Model
+                Default Model
               </p>
               <div className="grid grid-cols-2 gap-2">
                 {models.map(model => (
                   <button
                     key={model.id}
-                    onClick={() => onModelChange(model.id as any)}
+                    onClick={() => onModelChange(model.id)}
                     className={`flex flex-col items-center gap-1 p-2 rounded-lg transition-all duration-200 border transform hover:scale-105 active:scale-100 ${
                       settings.selectedModel === model.id
                         ? 'bg-[var(--color-card)] border-[var(--color-border)] text-[var(--color-text-primary)] scale-105'
@@ -213,117 +579,135 @@ export function Sidebar({
           </div>
         )}
 
+        {!isFolded && view !== 'quizzes' && (
+          <div className="mb-2 space-y-2">
+            {selectedIds ? (
+              <div className="p-2 rounded-lg bg-[var(--color-card)] space-y-2">
+                <div className="flex items-center justify-between text-xs font-semibold text-[var(--color-text-secondary)]">
+                  <span>{selectedIds.size} selected</span>
+                  <button onClick={() => setSelectedIds(null)} className="hover:text-[var(--color-text-primary)]">Cancel</button>
+                </div>
+                <div className="flex items-center gap-1">
+                  <select
+                    value=""
+                    onChange={(e) => handleBulkMove(e.target.value)}
+                    disabled={selectedIds.size === 0}
+                    className="flex-1 min-w-0 bg-[var(--color-sidebar)] border border-[var(--color-border)] rounded-md px-1.5 py-1 text-xs focus:outline-none disabled:opacity-50"
+                    title="Move to folder"
+                  >
+                    <option value="" disabled>Move to…</option>
+                    {folders.map(folder => <option key={folder.id} value={folder.id}>{folder.name}</option>)}
+                    <option value="unfiled">Unfiled</option>
+                  </select>
+                  <button
+                    onClick={() => handleEditTags(selectionKind, Array.from(selectedIds))}
+                    disabled={selectedIds.size === 0}
+                    className="p-1.5 rounded-md hover:bg-[var(--color-border)] disabled:opacity-50"
+                    title="Tag"
+                  >
+                    <Tag className="w-3.5 h-3.5" />
+                  </button>
+                  <ExportMenu
+                    onExport={(format) => onExportItems(selectionKind, Array.from(selectedIds), format)}
+                    disabled={selectedIds.size === 0}
+                    className="p-1.5 rounded-md hover:bg-[var(--color-border)] disabled:opacity-50"
+                  />
+                  <button
+                    onClick={handleBulkDelete}
+                    disabled={selectedIds.size === 0}
+                    className="p-1.5 rounded-md text-red-500 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 disabled:opacity-50"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center justify-end gap-1">
+                {view === 'notes' && (
+                  <button
+                    onClick={onNewNote}
+                    className="mr-auto flex items-center gap-1 px-2 py-1 rounded-md text-xs font-semibold text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-card)]"
+                  >
+                    <Plus className="w-3.5 h-3.5" />
+                    New note
+                  </button>
+                )}
+                <button
+                  onClick={handleCreateFolder}
+                  className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-semibold text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-card)]"
+                >
+                  <FolderPlus className="w-3.5 h-3.5" />
+                  New folder
+                </button>
+                <button
+                  onClick={() => setSelectedIds(new Set())}
+                  className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-semibold text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-card)]"
+                >
+                  <CheckSquare className="w-3.5 h-3.5" />
+                  Select
+                </button>
+              </div>
+            )}
+            {availableTags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {availableTags.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => setActiveTags(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]))}
+                    className={`text-xs px-2 py-0.5 rounded-full border transition-colors ${
+                      activeTags.includes(tag)
+                        ? 'bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] border-transparent'
+                        : 'border-[var(--color-border)] text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]'
+                    }`}
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {view === 'chats' && (
           <div className="space-y-1">
             {filteredConversations.length > 0 ? (
-              filteredConversations.map((conversation) => (
-                <div
-                  key={conversation.id}
-                  onClick={() => onSelectConversation(conversation.id)}
-                  className={`group flex items-center gap-2 ${isFolded ? 'justify-center p-2' : 'p-2.5'} rounded-lg cursor-pointer transition-colors relative ${
-                    activeView === 'chat' && currentConversationId === conversation.id
-                      ? 'bg-[var(--color-accent-bg)] text-[var(--color-accent-text)]'
-                      : 'hover:bg-[var(--color-card)] text-[var(--color-text-primary)]'
-                  }`}
-                  title={isFolded ? conversation.title : undefined}
-                >
-                  {conversation.isPinned && <Pin className="w-3 h-3 absolute top-1.5 left-1.5 text-yellow-400" />}
-                  <MessageSquare className="w-4 h-4 flex-shrink-0" />
-                  {!isFolded && (
-                    <>
-                      {editingId === conversation.id ? (
-                        <input
-                          type="text"
-                          value={editingTitle}
-                          onChange={(e) => setEditingTitle(e.target.value)}
-                          onBlur={handleSaveEdit}
-                          onKeyDown={handleKeyDown}
-                          className="flex-1 text-sm font-semibold bg-transparent border-b border-[var(--color-border)] focus:outline-none"
-                          autoFocus
-                          onClick={(e) => e.stopPropagation()}
-                        />
-                      ) : (
-                        <span className="flex-1 text-sm font-semibold truncate">{conversation.title}</span>
-                      )}
-                      <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            onTogglePinConversation(conversation.id);
-                          }}
-                          className={`p-1 rounded ${
-                            currentConversationId === conversation.id ? 'hover:bg-black/10 dark:hover:bg-white/10' : 'hover:bg-[var(--color-border)]'
-                          }`}
-                          title={conversation.isPinned ? 'Unpin' : 'Pin'}
-                        >
-                          <Pin className="w-3.5 h-3.5" />
-                        </button>
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleStartEditing(conversation);
-                          }}
-                          className={`p-1 rounded ${
-                            currentConversationId === conversation.id ? 'hover:bg-black/10 dark:hover:bg-white/10' : 'hover:bg-[var(--color-border)]'
-                          }`}
-                          title="Rename"
-                        >
-                          <Edit className="w-3.5 h-3.5" />
-                        </button>
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            onDeleteConversation(conversation.id);
-                          }}
-                          className={`p-1 rounded text-red-500 dark:text-red-400 ${
-                            currentConversationId === conversation.id ? 'hover:bg-black/10 dark:hover:bg-white/10' : 'hover:bg-red-100 dark:hover:bg-red-900/30'
-                          }`}
-                          title="Delete"
-                        >
-                          <Trash2 className="w-3.5 h-3.5" />
-                        </button>
-                      </div>
-                    </>
-                  )}
-                </div>
-              ))
-            ) : searchQuery ? (
+              isGrouped
+                ? renderGroups('conversation', filteredConversations, c => c.folderId, renderConversation)
+                : filteredConversations.map(renderConversation)
+            ) : isSearching && messageResults.length === 0 ? (
               <div className="text-center py-8 px-4">
                 <MessageSquare className="w-12 h-12 mx-auto text-[var(--color-text-secondary)] opacity-50 mb-3" />
                 <p className="text-sm text-[var(--color-text-secondary)]">No chats found</p>
               </div>
             ) : null}
+            {!isFolded && messageResults.length > 0 && (
+              <div className="pt-2">
+                <p className="px-2.5 pb-1 text-xs font-semibold uppercase tracking-wide text-[var(--color-text-secondary)]">In messages</p>
+                {messageResults.map(({ document, snippet }) => (
+                  <button
+                    key={document.id}
+                    onClick={() => onOpenSearchResult(document.conversationId!, document.id)}
+                    className="w-full text-left p-2.5 rounded-lg hover:bg-[var(--color-card)] text-[var(--color-text-primary)]"
+                  >
+                    <span className="flex items-center gap-1.5 text-xs font-semibold text-[var(--color-text-secondary)]">
+                      {document.role === 'user' ? <User className="w-3 h-3 flex-shrink-0" /> : <Sparkles className="w-3 h-3 flex-shrink-0" />}
+                      <span className="truncate">{document.title}</span>
+                    </span>
+                    <p className="text-xs mt-1 line-clamp-2"><Snippet parts={snippet} /></p>
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         )}
 
         {view === 'notes' && !isFolded && (
           <div className="space-y-1">
             {filteredNotes.length > 0 ? (
-              filteredNotes.map((note) => (
-                <div
-                  key={note.id}
-                  onClick={() => onSelectNote(note.id)}
-                  className={`group p-2.5 rounded-lg cursor-pointer ${
-                    activeView === 'note' && currentNoteId === note.id
-                      ? 'bg-[var(--color-accent-bg)] text-[var(--color-accent-text)]'
-                      : 'hover:bg-[var(--color-card)] text-[var(--color-text-primary)]'
-                  }`}
-                >
-                  <div className="flex items-start justify-between">
-                    <span className="flex-1 text-sm font-semibold truncate pr-2">{note.title}</span>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onDeleteNote(note.id);
-                      }}
-                      className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-red-100 dark:hover:bg-red-900/30 text-red-500 dark:text-red-400"
-                    >
-                      <Trash2 className="w-3.5 h-3.5" />
-                    </button>
-                  </div>
-                  <p className="text-xs opacity-70 mt-1 line-clamp-2">{note.content}</p>
-                </div>
-              ))
+              isGrouped
+                ? renderGroups('note', filteredNotes, item => item.note.folderId, renderNote)
+                : filteredNotes.map(renderNote)
             ) : (
               <div className="text-center py-8 px-4">
                 <Book className="w-12 h-12 mx-auto text-[var(--color-text-secondary)] opacity-50 mb-3" />
@@ -332,12 +716,57 @@ export function Sidebar({
             )}
           </div>
         )}
+
+        {view === 'quizzes' && !isFolded && (
+          <div className="space-y-1">
+            {filteredQuizzes.length > 0 ? (
+              filteredQuizzes.map((quiz) => {
+                const finished = quiz.attempts.filter(a => a.completedAt);
+                const best = finished.length > 0 ? Math.max(...finished.map(a => a.score)) : null;
+                return (
+                  <div
+                    key={quiz.id}
+                    onClick={() => onOpenQuiz(quiz.id)}
+                    className="group p-2.5 rounded-lg cursor-pointer hover:bg-[var(--color-card)] text-[var(--color-text-primary)]"
+                  >
+                    <div className="flex items-start justify-between">
+                      <span className="flex-1 text-sm font-semibold truncate pr-2">{quiz.title}</span>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onDeleteQuiz(quiz.id);
+                        }}
+                        className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-red-100 dark:hover:bg-red-900/30 text-red-500 dark:text-red-400"
+                        title="Delete quiz"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                    <div className="flex items-center justify-between gap-2 mt-1 text-xs opacity-70">
+                      <span className="truncate">
+                        {formatDate(new Date(quiz.createdAt))}
+                        {best !== null ? ` · best ${formatScore(best)}/${quiz.totalQuestions}` : ' · not finished'}
+                        {quiz.attempts.length > 1 && ` · ${quiz.attempts.length} attempts`}
+                      </span>
+                      <AttemptTrend quiz={quiz} />
+                    </div>
+                  </div>
+                );
+              })
+            ) : (
+              <div className="text-center py-8 px-4">
+                <ClipboardCheck className="w-12 h-12 mx-auto text-[var(--color-text-secondary)] opacity-50 mb-3" />
+                <p className="text-sm text-[var(--color-text-secondary)]">No quizzes yet</p>
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       <div className="p-2 border-t border-[var(--color-border)]">
-        <div className={`space-y-1 ${isFolded ? 'flex flex-col' : 'grid grid-cols-2 gap-1'}`}>
+        <div className={`space-y-1 ${isFolded ? 'flex flex-col' : 'grid grid-cols-4 gap-1'}`}>
           <button
-            onClick={() => setView('chats')}
+            onClick={() => handleChangeView('chats')}
             className={`flex flex-col items-center gap-1 p-2 rounded-lg w-full transition-colors ${
               view === 'chats' ? 'text-[var(--color-text-primary)] bg-[var(--color-card)]' : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]'
             }`}
@@ -346,7 +775,7 @@ export function Sidebar({
             {!isFolded && <span className="text-xs font-semibold">Chats</span>}
           </button>
           <button
-            onClick={() => { setView('notes'); onSelectNote(null); }}
+            onClick={() => { handleChangeView('notes'); onSelectNote(null); }}
             className={`flex flex-col items-center gap-1 p-2 rounded-lg w-full transition-colors ${
               view === 'notes' ? 'text-[var(--color-text-primary)] bg-[var(--color-card)]' : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]'
             }`}
@@ -354,6 +783,30 @@ export function Sidebar({
             <Book className="w-5 h-5" />
             {!isFolded && <span className="text-xs font-semibold">Notes</span>}
           </button>
+          <button
+            onClick={() => handleChangeView('quizzes')}
+            className={`flex flex-col items-center gap-1 p-2 rounded-lg w-full transition-colors ${
+              view === 'quizzes' ? 'text-[var(--color-text-primary)] bg-[var(--color-card)]' : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]'
+            }`}
+          >
+            <ClipboardCheck className="w-5 h-5" />
+            {!isFolded && <span className="text-xs font-semibold">Quizzes</span>}
+          </button>
+          <button
+            onClick={onOpenReview}
+            className={`relative flex flex-col items-center gap-1 p-2 rounded-lg w-full transition-colors ${
+              activeView === 'review' ? 'text-[var(--color-text-primary)] bg-[var(--color-card)]' : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]'
+            }`}
+            title={`${dueFlashcardCount} flashcards due`}
+          >
+            <WalletCards className="w-5 h-5" />
+            {!isFolded && <span className="text-xs font-semibold">Review</span>}
+            {dueFlashcardCount > 0 && (
+              <span className="absolute top-1 right-1 min-w-[1rem] h-4 px-1 rounded-full bg-blue-500 dark:bg-[var(--color-accent-bg)] text-white dark:text-[var(--color-accent-text)] text-[10px] font-bold leading-4 text-center">
+                {dueFlashcardCount > 99 ? '99+' : dueFlashcardCount}
+              </span>
+            )}
+          </button>
         </div>
         {!isFolded && (
           <div className="mt-2 text-center">
@@ -0,0 +1,79 @@
+import { FormEvent, useState } from 'react';
+import { Loader2, Lock } from 'lucide-react';
+import { DecryptionError } from '../utils/crypto';
+
+interface UnlockModalProps {
+  onUnlock: (passphrase: string) => Promise<void>; // Rejects with DecryptionError for a wrong passphrase
+  onSkip: () => void;
+  onForget: () => void;
+}
+
+export function UnlockModal({ onUnlock, onSkip, onForget }: UnlockModalProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+    } catch (err) {
+      console.error('Error unlocking API keys:', err);
+      setError(err instanceof DecryptionError ? err.message : 'Could not unlock the API keys.');
+      setPassphrase('');
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-2 sm:p-4 bg-black/70 backdrop-blur-sm animate-fadeIn">
+      <form
+        onSubmit={handleSubmit}
+        className="relative w-full max-w-sm bg-[var(--color-sidebar)] border border-[var(--color-border)] rounded-2xl shadow-2xl flex flex-col animate-fade-in-up overflow-hidden"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="unlock-keys-title"
+      >
+        <div className="p-4 sm:p-6 space-y-4">
+          <div className="flex items-center gap-3">
+            <Lock className="w-6 h-6 flex-shrink-0 text-[var(--color-text-secondary)]" />
+            <h2 id="unlock-keys-title" className="text-lg font-bold">Unlock API keys</h2>
+          </div>
+          <p className="text-sm text-[var(--color-text-secondary)]">
+            Your API keys are encrypted. Enter your passphrase to use them in this session.
+          </p>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Passphrase"
+            autoFocus
+            autoComplete="current-password"
+            className="w-full px-3 py-2 border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          {error && <p className="text-sm text-red-500 dark:text-red-400">{error}</p>}
+          <button type="button" onClick={onForget} className="text-xs text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] underline">
+            Forgot the passphrase? Remove the saved keys
+          </button>
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-[var(--color-border)] bg-gray-50/50 dark:bg-[var(--color-bg)]/50">
+          <button type="button" onClick={onSkip} className="interactive-button px-4 py-2.5 rounded-lg font-bold bg-[var(--color-card)] hover:bg-[var(--color-border)]">
+            Not now
+          </button>
+          <button
+            type="submit"
+            disabled={!passphrase || isUnlocking}
+            className="interactive-button flex items-center gap-2 px-4 py-2.5 rounded-lg font-bold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)] disabled:opacity-50"
+          >
+            {isUnlocking && <Loader2 className="w-4 h-4 animate-spin" />}
+            Unlock
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
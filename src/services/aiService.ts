@@ -1,89 +1,47 @@
-import { APISettings, Conversation, StudySession, QuizQuestion, TutorMode } from '../types';
+import { APISettings, ContextSummary, Conversation, Flashcard, Message, Note, Persona, StudySession, QuizOptions, QuizQuestion } from '../types';
 import { generateId } from '../utils/helpers';
+import { extractJson } from '../utils/json';
+import { getActivePath } from '../utils/messageTree';
+import { getPersona, listPersonas } from './personas';
+import { ChatMessage, DEFAULT_MODEL_ID, GenerationParams, ModelProvider, getCredentialName, getProvider, isProviderConfigured, resolveApiKey } from './providers';
+import { DEFAULT_QUIZ_OPTIONS, InvalidQuestion, ShortAnswerGrade, describeQuizFormat, validateQuizPayload } from './quiz';
+import { SUMMARY_TOKEN_ALLOWANCE, estimateTokens, getContextBudget, planContext, takeRecentWithinBudget } from './contextWindow';
+
+const quizSystemPrompt = 'You generate quizzes. Return only JSON.';
+const graderSystemPrompt = 'You are a fair, encouraging examiner who grades short answers against a rubric. Return only JSON.';
+const flashcardSystemPrompt = 'You write clear, atomic study flashcards. Return only JSON.';
+
+const summarizerPrompt = `You condense tutoring conversations. Write a compact summary of the conversation you are given, keeping the topics covered, key explanations, formulas, code, decisions and any open questions or the student's difficulties. Write in plain prose or short bullet points, without any preamble.`;
+
+// The persona and model a conversation runs with
+export type ChatProfile = Pick<Conversation, 'tutorMode' | 'model'>;
+
+export interface GenerateOptions {
+  signal?: AbortSignal;
+  onFallback?: (provider: ModelProvider) => void; // Called when a fallback model takes over
+  onSummary?: (summary?: ContextSummary) => void; // Called when fitting the context changed the conversation's summary
+}
 
-// Persona prompts for tutors
-const tutorPrompts: Record<TutorMode, string> = {
-  standard: `You are an expert AI Tutor named 'Tutor'. Your primary goal is to help users understand complex topics through clear, patient, and encouraging guidance. Follow these principles strictly:
-1. Socratic Method: Do not just provide direct answers. Instead, ask guiding questions to help the user arrive at the solution themselves.
-2. Simplify Concepts: Break down complex subjects into smaller, digestible parts. Use simple language, analogies, and real-world examples to make concepts relatable.
-3. Encouraging Tone: Maintain a positive, patient, and supportive tone at all times.
-4. Clear Explanations: When you must provide an explanation or a code example, ensure it is thoroughly commented and explained step-by-step.
-5. Stay Focused: Politely steer the conversation back to the educational topic if the user strays.`,
-
-  exam: `You are a no-nonsense AI Exam Coach. Your purpose is to prepare the user for a test. You are direct, efficient, and focused on results.
-1. Focus on Key Concepts: Prioritize formulas, definitions, and facts most likely to appear on exams.
-2. Provide Practice Problems: Actively create practice questions and short-answer drills.
-3. Concise Answers: Be direct. Avoid long philosophical explanations.
-4. Identify Weaknesses: Give immediate feedback and short explanations when answers are wrong.
-5. Time Management: Emphasize speed and accuracy.`,
-
-  mentor: `You are a Friendly AI Mentor. You are casual, relatable, and motivating.
-1. Relatable Analogies: Use simple analogies and real-life examples.
-2. Constant Encouragement: Cheer the student on ("You're doing great!").
-3. Casual Tone: Be conversational, use emojis if needed.
-4. Focus on the 'Why': Explain the real-world relevance of topics.
-5. Growth Mindset: Treat mistakes as learning opportunities.`,
-
-  creative: `You are a Creative AI Guide. You help with brainstorming, writing, and imaginative thinking.
-1. Brainstorming Partner: Offer many starting points and "what if" scenarios.
-2. Ask Open-Ended Questions: Encourage exploration.
-3. Sensory Details: Guide the user to think about sights, sounds, smells, etc.
-4. Constructive Feedback: Focus on positives before suggesting improvements.
-5. Creative Constraints: Suggest fun challenges to spark ideas.`
-};
-
-// Helper: OpenAI-compatible streaming (Zhipu, Mistral)
-async function* streamOpenAICompatResponse(
-  url: string,
-  apiKey: string,
-  model: string,
-  messages: { role: string; content: string }[],
-  systemPrompt: string
-): AsyncGenerator<string> {
-  const messagesWithSystemPrompt = [
-    { role: 'system', content: systemPrompt },
-    ...messages,
-  ];
-
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({ model, messages: messagesWithSystemPrompt, stream: true }),
-  });
-
-  if (!response.ok || !response.body) {
-    const errorBody = await response.text();
-    console.error("API Error Body:", errorBody);
-    throw new Error(`API Error: ${response.status} ${response.statusText}`);
-  }
+interface StreamOptions extends GenerationParams {
+  signal?: AbortSignal;
+}
 
-  const reader = response.body.getReader();
-  const decoder = new TextDecoder();
-  let buffer = '';
-
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) break;
-    buffer += decoder.decode(value, { stream: true });
-    const lines = buffer.split('\n');
-    buffer = lines.pop() || '';
-    for (const line of lines) {
-      if (line.startsWith('data: ')) {
-        const data = line.substring(6);
-        if (data.trim() === '[DONE]') return;
-        try {
-          const json = JSON.parse(data);
-          const chunk = json.choices?.[0]?.delta?.content;
-          if (chunk) yield chunk;
-        } catch (e) {
-          console.error('Error parsing stream chunk:', e, 'Raw data:', data);
-        }
-      }
-    }
-  }
+export type FlashcardDraft = Pick<Flashcard, 'front' | 'back'>;
+
+export interface PreparedContext {
+  messages: Message[];
+  summary?: ContextSummary;
+}
+
+// Conversations keep their own persona and model. Older ones without them, or
+// whose persona or custom endpoint was deleted, use the defaults from settings.
+export function resolvePersona(profile: ChatProfile | undefined, settings: Pick<APISettings, 'selectedTutorMode' | 'customPersonas'>): Persona {
+  const own = profile?.tutorMode && listPersonas(settings).find(p => p.id === profile.tutorMode);
+  return own || getPersona(settings.selectedTutorMode, settings);
+}
+
+export function resolveProvider(profile: ChatProfile | undefined, settings: APISettings): ModelProvider | undefined {
+  return (profile?.model && getProvider(profile.model, settings)) || getProvider(settings.selectedModel, settings);
 }
 
 class AiService {
@@ -91,187 +49,324 @@ class AiService {
     googleApiKey: '',
     zhipuApiKey: '',
     mistralApiKey: '',
-    selectedModel: 'google',
+    customEndpoints: [],
+    selectedModel: DEFAULT_MODEL_ID,
+    fallbackModels: [],
+    quizOptions: DEFAULT_QUIZ_OPTIONS,
     selectedTutorMode: 'standard',
+    customPersonas: [],
+    theme: 'system',
+    autoLockMinutes: 15,
   };
 
   public updateSettings(newSettings: APISettings) {
     this.settings = newSettings;
   }
 
-  private getSystemPrompt(): string {
-    return tutorPrompts[this.settings.selectedTutorMode] || tutorPrompts.standard;
+  public getSystemPrompt(profile?: ChatProfile): string {
+    return resolvePersona(profile, this.settings).systemPrompt;
+  }
+
+  public getSelectedProvider(profile?: ChatProfile): ModelProvider | undefined {
+    return resolveProvider(profile, this.settings);
+  }
+
+  // Selected model followed by the configured fallbacks that have credentials
+  private getProviderChain(profile?: ChatProfile): ModelProvider[] {
+    const selected = this.getSelectedProvider(profile);
+    const fallbacks = (this.settings.fallbackModels ?? [])
+      .filter(id => id !== selected?.id)
+      .map(id => getProvider(id, this.settings))
+      .filter((p): p is ModelProvider => !!p && isProviderConfigured(p, this.settings));
+    return selected ? [selected, ...fallbacks] : fallbacks;
   }
 
-  // Unified streaming response generator
+  // Unified streaming response generator for a reply to `history`. A model that fails
+  // before sending anything (after its own retries) hands over to the next fallback,
+  // which fits the history into its own context window.
   public async *generateStreamingResponse(
-    messages: { role: string; content: string }[]
+    conversation: Conversation,
+    history: Message[],
+    { signal, onFallback, onSummary }: GenerateOptions = {}
   ): AsyncGenerator<string> {
-    const userMessages = messages.map(m => ({ role: m.role, content: m.content }));
-    const systemPrompt = this.getSystemPrompt();
-
-    switch (this.settings.selectedModel) {
-      case 'google': {
-        if (!this.settings.googleApiKey) throw new Error('Google API key not set');
-        const googleUrl = `https://generativelanguage.googleapis.com/v1beta/models/gemma-3-27b-it:streamGenerateContent?key=${this.settings.googleApiKey}&alt=sse`;
-
-        // Prepend system prompt + user messages (Gemma-compatible)
-        const googleMessages = [
-          { role: 'user', parts: [{ text: systemPrompt }] },
-          { role: 'model', parts: [{ text: 'Understood. I will follow this role.' }] },
-          ...userMessages.map(m => ({
-            role: m.role === 'assistant' ? 'model' : 'user',
-            parts: [{ text: m.content }],
-          })),
-        ];
-
-        const response = await fetch(googleUrl, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ contents: googleMessages }),
-        });
-
-        if (!response.ok || !response.body) throw new Error(`API Error: ${response.status} ${response.statusText}`);
-        const reader = response.body.getReader();
-        const decoder = new TextDecoder();
-        let buffer = '';
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              try {
-                const json = JSON.parse(line.substring(6));
-                const chunk = json.candidates?.[0]?.content?.parts?.[0]?.text;
-                if (chunk) yield chunk;
-              } catch (e) { console.error('Error parsing Google stream:', e); }
-            }
-          }
+    const chain = this.getProviderChain(conversation);
+    if (chain.length === 0) throw new Error('Invalid model selected or API key not set.');
+
+    const { systemPrompt: personaPrompt, temperature } = resolvePersona(conversation, this.settings);
+    let summary = conversation.contextSummary;
+
+    for (const [index, provider] of chain.entries()) {
+      let started = false;
+      try {
+        if (index > 0) onFallback?.(provider);
+        const context = await this.prepareContext(provider, { ...conversation, contextSummary: summary }, history, signal);
+        if (context.summary !== summary) {
+          summary = context.summary;
+          onSummary?.(summary);
+        }
+        const systemPrompt = summary
+          ? `${personaPrompt}\n\nSummary of the earlier part of this conversation:\n${summary.content}`
+          : personaPrompt;
+        const messages: ChatMessage[] = context.messages.map(m => ({ role: m.role, content: m.content }));
+        for await (const chunk of this.streamFrom(provider, messages, systemPrompt, { signal, temperature })) {
+          started = true;
+          yield chunk;
         }
-        break;
+        return;
+      } catch (error) {
+        if (started || signal?.aborted || index === chain.length - 1) throw error;
+        console.warn(`${provider.name} failed, falling back to ${chain[index + 1].name}:`, error);
       }
+    }
+  }
+
+  // Fits a branch into a model's context window. Older turns that no longer fit
+  // are folded into the conversation's cached summary.
+  private async prepareContext(provider: ModelProvider, conversation: Conversation, history: Message[], signal?: AbortSignal): Promise<PreparedContext> {
+    const summary = conversation.contextSummary;
+    const plan = planContext(history, provider, this.getSystemPrompt(conversation), summary);
+    if (!plan.toSummarize?.length) return { messages: plan.messages, summary: plan.summary };
 
-      case 'zhipu':
-        if (!this.settings.zhipuApiKey) throw new Error('ZhipuAI API key not set');
-        yield* streamOpenAICompatResponse(
-          'https://open.bigmodel.cn/api/paas/v4/chat/completions',
-          this.settings.zhipuApiKey,
-          'glm-4.5-flash',
-          userMessages,
-          systemPrompt
-        );
-        break;
-
-      case 'mistral-small':
-        if (!this.settings.mistralApiKey) throw new Error('Mistral API key not set');
-        yield* streamOpenAICompatResponse(
-          'https://api.mistral.ai/v1/chat/completions',
-          this.settings.mistralApiKey,
-          'mistral-small-latest',
-          userMessages,
-          systemPrompt
-        );
-        break;
-
-      case 'mistral-codestral':
-        if (!this.settings.mistralApiKey) throw new Error('Mistral API key not set for Codestral');
-        yield* streamOpenAICompatResponse(
-          'https://api.mistral.ai/v1/chat/completions',
-          this.settings.mistralApiKey,
-          'codestral-latest',
-          userMessages,
-          systemPrompt
-        );
-        break;
-
-      default:
-        throw new Error('Invalid model selected or API key not set.');
+    try {
+      const content = await this.summarize(provider, plan.toSummarize, plan.summary?.content, signal);
+      return {
+        messages: plan.messages,
+        summary: {
+          content,
+          throughMessageId: plan.toSummarize[plan.toSummarize.length - 1].id,
+          tokenCount: estimateTokens(content, provider),
+          createdAt: new Date(),
+        },
+      };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error('Error summarizing conversation, sending recent messages only:', error);
+      return { messages: plan.messages, summary: plan.summary };
     }
   }
 
-  // Quiz generation (Google Gemma only for now)
-  public async generateQuiz(conversation: Conversation): Promise<StudySession> {
-    if (!this.settings.googleApiKey) {
-      throw new Error('Google API key must be configured to generate quizzes.');
+  private async summarize(provider: ModelProvider, messages: Message[], previousSummary?: string, signal?: AbortSignal): Promise<string> {
+    const transcript = messages
+      .map(m => `${m.role === 'user' ? 'Student' : 'Tutor'}: ${m.content}`)
+      .join('\n\n');
+    const prompt = previousSummary
+      ? `Summary so far:\n${previousSummary}\n\nContinue it with these later turns:\n\n${transcript}`
+      : transcript;
+    return this.collectText(provider, [{ role: 'user', content: prompt }], summarizerPrompt, {
+      signal,
+      temperature: 0.2,
+      maxOutputTokens: SUMMARY_TOKEN_ALLOWANCE,
+    });
+  }
+
+  private async collectText(provider: ModelProvider, messages: ChatMessage[], systemPrompt: string, options: StreamOptions = {}): Promise<string> {
+    let text = '';
+    for await (const chunk of this.streamFrom(provider, messages, systemPrompt, options)) {
+      text += chunk;
     }
+    return text;
+  }
 
-    const conversationText = conversation.messages
+  private async *streamFrom(
+    provider: ModelProvider,
+    messages: ChatMessage[],
+    systemPrompt: string,
+    { signal, ...params }: StreamOptions = {}
+  ): AsyncGenerator<string> {
+    const apiKey = resolveApiKey(provider, this.settings);
+    if (provider.credential && !apiKey) throw new Error(`${getCredentialName(provider.credential)} API key not set`);
+
+    yield* provider.stream({
+      endpoint: provider.endpoint,
+      apiKey,
+      model: provider.model,
+      messages: messages.map(m => ({ role: m.role, content: m.content })),
+      systemPrompt,
+      capabilities: provider.capabilities,
+      ...params,
+      signal,
+    });
+  }
+
+  // Study material (quizzes, flashcards, grading) runs on the chat's model or one
+  // of its fallbacks, preferring one with a native JSON mode
+  private getStudyProvider(profile?: ChatProfile): ModelProvider {
+    const candidates = this.getProviderChain(profile).filter(p => isProviderConfigured(p, this.settings));
+    const provider = candidates.find(p => p.capabilities.jsonMode) ?? candidates[0];
+    if (!provider) {
+      const selected = this.getSelectedProvider(profile);
+      throw new Error(selected?.credential
+        ? `${getCredentialName(selected.credential)} API key must be configured to generate quizzes and flashcards.`
+        : 'Invalid model selected or API key not set.');
+    }
+    return provider;
+  }
+
+  // The active branch as Q/A text, leaving `reserveTokens` for instructions and output
+  private conversationTranscript(conversation: Conversation, provider: ModelProvider, reserveTokens: number): string {
+    const path = getActivePath(conversation);
+    const recent = takeRecentWithinBudget(path, provider, getContextBudget(provider) - reserveTokens - (conversation.contextSummary?.tokenCount ?? 0));
+    const summary = recent.length < path.length && conversation.contextSummary
+      ? `Summary of earlier parts:\n${conversation.contextSummary.content}\n\n`
+      : '';
+    return summary + recent
       .map(m => `${m.role === 'user' ? 'Q:' : 'A:'} ${m.content}`)
       .join('\n\n');
+  }
+
+  // Quiz generation
+  public async generateQuiz(conversation: Conversation, options: QuizOptions = DEFAULT_QUIZ_OPTIONS, signal?: AbortSignal): Promise<StudySession> {
+    const quizProvider = this.getStudyProvider(conversation);
+    const conversationText = this.conversationTranscript(conversation, quizProvider, 1500 + options.count * 150);
 
     const prompt = `
-Based on the following conversation, create a multiple-choice quiz with 5 questions to test understanding.
+Based on the following conversation, create a quiz to test understanding.
 
 Conversation:
 ---
-${conversationText.slice(0, 6000)}
+${conversationText}
 ---
 
-Format the output as a single JSON object with a "questions" array.
-Each question must include: "question" (string), "options" (array of 4 strings), "answer" (the correct string), and "explanation" (string).
+${describeQuizFormat(options)}
 Return ONLY valid JSON. No markdown or extra text.
 `;
 
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemma-3-27b-it:generateContent?key=${this.settings.googleApiKey}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [
-            { role: 'user', parts: [{ text: prompt }] },
-            { role: 'model', parts: [{ text: 'Understood. I will return only JSON.' }] }
-          ],
-        }),
-      }
-    );
+    const textResponse = await this.collectText(quizProvider, [{ role: 'user', content: prompt }], quizSystemPrompt, { signal, json: true });
+    if (!textResponse) throw new Error('Invalid response from API when generating quiz.');
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`API Error: ${response.status} - ${errorText}`);
+    let questions: QuizQuestion[];
+    let invalid: InvalidQuestion[];
+    try {
+      ({ questions, invalid } = validateQuizPayload(extractJson(textResponse), options.types));
+    } catch (error) {
+      console.error("Failed to parse quiz JSON:", error, "Raw response:", textResponse);
+      throw new Error("Could not generate a valid quiz from the conversation.");
     }
 
-    const data = await response.json();
-    const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
-    if (!textResponse) throw new Error('Invalid response from API when generating quiz.');
+    let droppedQuestions = 0;
+    if (invalid.length > 0) {
+      console.warn('Invalid quiz questions:', invalid);
+      const repaired = await this.repairQuizQuestions(quizProvider, invalid, options, signal);
+      questions = [...questions, ...repaired];
+      droppedQuestions = invalid.length - repaired.length;
+    }
+    if (questions.length === 0) throw new Error("Could not generate a valid quiz from the conversation.");
+    questions = questions.slice(0, options.count);
+
+    return {
+      id: generateId(),
+      conversationId: conversation.id,
+      title: conversation.title,
+      questions,
+      attempts: [],
+      currentQuestionIndex: 0,
+      score: 0,
+      totalQuestions: questions.length,
+      isCompleted: false,
+      createdAt: new Date(),
+      ...(droppedQuestions > 0 ? { droppedQuestions } : {}),
+    };
+  }
+
+  // One follow-up asking the model to fix the questions that failed validation;
+  // whatever is still broken afterwards is dropped
+  private async repairQuizQuestions(provider: ModelProvider, invalid: InvalidQuestion[], options: QuizOptions, signal?: AbortSignal): Promise<QuizQuestion[]> {
+    const prompt = `
+These quiz questions are invalid:
+${invalid.map((item, i) => `${i + 1}. The question ${item.error}:\n${JSON.stringify(item.raw)}`).join('\n\n')}
+
+Fix each one so it follows the format below, keeping its topic. If a question cannot be fixed, replace it with a new one on the same topic.
+
+${describeQuizFormat({ ...options, count: invalid.length })}
+Return ONLY valid JSON. No markdown or extra text.
+`;
 
     try {
-      const cleanText = textResponse
-        .replace(/```json/g, '')
-        .replace(/```/g, '')
-        .trim();
+      const textResponse = await this.collectText(provider, [{ role: 'user', content: prompt }], quizSystemPrompt, { signal, json: true });
+      const { questions, invalid: stillInvalid } = validateQuizPayload(extractJson(textResponse), options.types);
+      if (stillInvalid.length > 0) console.warn('Dropping quiz questions that are still invalid:', stillInvalid);
+      return questions.slice(0, invalid.length);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error('Failed to repair quiz questions:', error);
+      return [];
+    }
+  }
 
-      const parsed = JSON.parse(cleanText);
+  // Short answers are marked by the model against the question's rubric
+  public async gradeShortAnswer(
+    question: Extract<QuizQuestion, { type: 'short-answer' }>,
+    answer: string,
+    profile?: ChatProfile,
+    signal?: AbortSignal
+  ): Promise<ShortAnswerGrade> {
+    const provider = this.getStudyProvider(profile);
+    const prompt = `
+Question: ${question.question}
+Rubric: ${question.rubric}
+Sample answer: ${question.sampleAnswer}
 
-      if (!parsed.questions || !Array.isArray(parsed.questions)) {
-        throw new Error('Quiz JSON missing questions array.');
-      }
+Student answer:
+---
+${answer}
+---
 
-      const questions: QuizQuestion[] = parsed.questions.map((q: any) => ({
-        id: generateId(),
-        question: q.question,
-        options: q.options,
-        correctAnswer: q.options.indexOf(q.answer),
-        explanation: q.explanation,
-      }));
+Grade the student answer against the rubric. Give partial credit for partly correct answers; ignore spelling and grammar.
+Format the output as a single JSON object with "score" (a number from 0 to 1) and "feedback" (1-2 sentences addressed to the student saying what was right and what was missing).
+Return ONLY valid JSON. No markdown or extra text.
+`;
 
+    const textResponse = await this.collectText(provider, [{ role: 'user', content: prompt }], graderSystemPrompt, { signal, json: true, temperature: 0 });
+    try {
+      const parsed = extractJson(textResponse) as { score?: unknown; feedback?: unknown };
+      const score = Number(parsed?.score);
+      if (!Number.isFinite(score)) throw new Error('Grade JSON has no score.');
       return {
-        id: generateId(),
-        conversationId: conversation.id,
-        questions,
-        currentQuestionIndex: 0,
-        score: 0,
-        totalQuestions: questions.length,
-        isCompleted: false,
-        createdAt: new Date(),
+        points: Math.round(Math.min(1, Math.max(0, score)) * 100) / 100,
+        feedback: typeof parsed.feedback === 'string' ? parsed.feedback.trim() : '',
       };
     } catch (error) {
-      console.error("Failed to parse quiz JSON:", error, "Raw response:", textResponse);
-      throw new Error("Could not generate a valid quiz from the conversation.");
+      console.error('Failed to parse grade JSON:', error, 'Raw response:', textResponse);
+      throw new Error('Could not grade this answer.');
+    }
+  }
+
+  // Front/back card pairs from a conversation or a note
+  public async generateFlashcards(source: Conversation | Note, signal?: AbortSignal): Promise<FlashcardDraft[]> {
+    const isConversation = 'messages' in source;
+    const provider = this.getStudyProvider(isConversation ? source : undefined);
+    const reserveTokens = 2000;
+    const material = isConversation
+      ? this.conversationTranscript(source, provider, reserveTokens)
+      : source.content.slice(0, (getContextBudget(provider) - reserveTokens) * (provider.charsPerToken ?? 4));
+
+    const prompt = `
+Create flashcards for spaced-repetition study from the following ${isConversation ? 'tutoring conversation' : 'study note'}.
+Make up to 12 cards, one fact, definition, formula or concept per card. Fronts are short questions or prompts; backs are concise answers.
+
+${isConversation ? 'Conversation' : 'Note'}:
+---
+${material}
+---
+
+Format the output as a single JSON object with a "cards" array. Each card must include "front" (string) and "back" (string).
+Return ONLY valid JSON. No markdown or extra text.
+`;
+
+    const textResponse = await this.collectText(provider, [{ role: 'user', content: prompt }], flashcardSystemPrompt, { signal, json: true });
+    try {
+      const parsed = extractJson(textResponse) as { cards?: unknown };
+      const entries = (Array.isArray(parsed?.cards) ? parsed.cards : []) as Array<Record<string, unknown> | null>;
+      const cards = entries.flatMap((c): FlashcardDraft[] =>
+        typeof c?.front === 'string' && typeof c.back === 'string' && c.front.trim() && c.back.trim()
+          ? [{ front: c.front.trim(), back: c.back.trim() }]
+          : []
+      );
+      if (cards.length === 0) throw new Error('Flashcard JSON has no usable cards.');
+      return cards;
+    } catch (error) {
+      console.error('Failed to parse flashcard JSON:', error, 'Raw response:', textResponse);
+      throw new Error('Could not generate flashcards from this content.');
     }
   }
 }
@@ -0,0 +1,97 @@
+import { ContextSummary, Message } from '../types';
+import { ModelProvider } from './providers';
+
+const DEFAULT_CHARS_PER_TOKEN = 4;
+// Share of the budget the recent turns may use after older ones are summarized,
+// so the next few questions fit without summarizing again right away
+const KEEP_RECENT_RATIO = 0.6;
+export const SUMMARY_TOKEN_ALLOWANCE = 600;
+
+export interface ContextUsage {
+  usedTokens: number;
+  budgetTokens: number;
+  contextWindow: number;
+  summarizedCount: number; // Messages represented by the cached summary
+}
+
+export interface ContextPlan {
+  messages: Message[];          // Recent messages sent verbatim
+  summary?: ContextSummary;     // Cached summary that still applies
+  toSummarize?: Message[];      // Messages to fold into a new summary before sending
+  usage: ContextUsage;
+}
+
+// Rough estimate; providers with denser tokenizers declare fewer chars per token
+export function estimateTokens(text: string, provider?: ModelProvider): number {
+  return Math.ceil(text.length / (provider?.charsPerToken ?? DEFAULT_CHARS_PER_TOKEN)) + 4;
+}
+
+// Tokens available for the prompt once room for the reply is set aside
+export function getContextBudget(provider: ModelProvider): number {
+  const replyReserve = Math.min(4096, Math.floor(provider.contextWindow * 0.25));
+  return provider.contextWindow - replyReserve;
+}
+
+function countTokens(messages: Message[], provider: ModelProvider): number {
+  return messages.reduce((sum, m) => sum + estimateTokens(m.content, provider), 0);
+}
+
+export function planContext(
+  history: Message[],
+  provider: ModelProvider,
+  systemPrompt: string,
+  summary?: ContextSummary
+): ContextPlan {
+  const budgetTokens = getContextBudget(provider);
+  const systemTokens = estimateTokens(systemPrompt, provider);
+  const usage = (messages: Message[], activeSummary?: ContextSummary): ContextUsage => ({
+    usedTokens: systemTokens + countTokens(messages, provider) + (activeSummary?.tokenCount ?? 0),
+    budgetTokens,
+    contextWindow: provider.contextWindow,
+    summarizedCount: activeSummary ? history.length - messages.length : 0,
+  });
+
+  if (systemTokens + countTokens(history, provider) <= budgetTokens) {
+    return { messages: history, usage: usage(history) };
+  }
+
+  // A summary only applies while the message it ends at is on the active branch
+  const summaryEnd = summary ? history.findIndex(m => m.id === summary.throughMessageId) : -1;
+  const validSummary = summaryEnd >= 0 ? summary : undefined;
+  if (validSummary) {
+    const rest = history.slice(summaryEnd + 1);
+    const plan = { messages: rest, summary: validSummary, usage: usage(rest, validSummary) };
+    if (plan.usage.usedTokens <= budgetTokens) return plan;
+  }
+
+  // Keep as many recent turns as fit, starting the kept part on a question
+  const keepBudget = budgetTokens * KEEP_RECENT_RATIO - systemTokens - SUMMARY_TOKEN_ALLOWANCE;
+  let cut = history.length - 1;
+  let kept = estimateTokens(history[cut].content, provider);
+  while (cut > summaryEnd + 1 && kept + estimateTokens(history[cut - 1].content, provider) <= keepBudget) {
+    cut--;
+    kept += estimateTokens(history[cut].content, provider);
+  }
+  while (cut < history.length - 1 && history[cut].role !== 'user') cut++;
+
+  const messages = history.slice(cut);
+  return {
+    messages,
+    summary: validSummary,
+    toSummarize: history.slice(summaryEnd + 1, cut),
+    usage: usage(messages, validSummary),
+  };
+}
+
+// Most recent messages that fit in `budget` tokens, in their original order
+export function takeRecentWithinBudget(messages: Message[], provider: ModelProvider, budget: number): Message[] {
+  let used = 0;
+  let start = messages.length;
+  while (start > 0) {
+    const tokens = estimateTokens(messages[start - 1].content, provider);
+    if (used + tokens > budget) break;
+    used += tokens;
+    start--;
+  }
+  return messages.slice(start);
+}
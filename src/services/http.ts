@@ -0,0 +1,95 @@
+import { ApiErrorKind } from '../types';
+
+export class ApiError extends Error {
+  constructor(
+    public readonly kind: ApiErrorKind,
+    message: string,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  get isRetryable(): boolean {
+    return this.kind === 'rate-limit' || this.kind === 'server' || this.kind === 'network';
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export async function errorFromResponse(response: Response): Promise<ApiError> {
+  const body = await response.text().catch(() => '');
+  console.error("API Error Body:", body);
+  const status = response.status;
+  const summary = `API Error: ${status} ${response.statusText}`.trim();
+
+  if (status === 401 || status === 403) {
+    return new ApiError('auth', `${summary}. Check that the API key is correct and has access to this model.`, status);
+  }
+  if (status === 402 || (status === 429 && /quota|billing|insufficient|exhausted/i.test(body))) {
+    return new ApiError('quota', `${summary}. The account has run out of quota or credits.`, status);
+  }
+  if (status === 429) {
+    return new ApiError('rate-limit', `${summary}. Too many requests.`, status, parseRetryAfter(response.headers.get('Retry-After')));
+  }
+  if (status >= 500) {
+    return new ApiError('server', `${summary}. The provider is having problems.`, status, parseRetryAfter(response.headers.get('Retry-After')));
+  }
+  return new ApiError('bad-request', summary, status);
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason ?? new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+// fetch() that throws ApiError and retries rate limits, 5xx and network
+// failures with exponential backoff, honouring Retry-After when sent
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  { retries = 3, baseDelayMs = 1000, maxDelayMs = 30_000 }: RetryOptions = {}
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    let error: ApiError;
+    try {
+      const response = await fetch(url, init);
+      if (response.ok) return response;
+      error = await errorFromResponse(response);
+    } catch (e) {
+      if (isAbortError(e) || init.signal?.aborted) throw e;
+      error = new ApiError('network', `Network error: ${e instanceof Error ? e.message : 'request failed'}`);
+    }
+
+    if (!error.isRetryable || attempt >= retries) throw error;
+    const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.8 + Math.random() * 0.4);
+    await sleep(Math.min(maxDelayMs, error.retryAfterMs ?? backoff), init.signal ?? undefined);
+  }
+}
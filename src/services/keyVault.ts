@@ -0,0 +1,71 @@
+import { APISettings } from '../types';
+import { ApiKeys, extractApiKeys } from './providers';
+import { storageUtils } from '../utils/storage';
+import { DecryptionError, createSalt, decryptWithKey, deriveKey, encryptWithKey } from '../utils/crypto';
+
+export type KeyVaultStatus = 'off' | 'locked' | 'unlocked';
+
+// Optional encryption of the API keys at rest. While it is on, the keys are stored
+// only as an AES-GCM payload, and the derived key is held in memory until locked.
+class KeyVault {
+  private key: CryptoKey | null = null;
+  private salt = '';
+  private iterations?: number;
+
+  public isEnabled(): boolean {
+    return storageUtils.getKeyVault() !== null;
+  }
+
+  public isUnlocked(): boolean {
+    return this.key !== null;
+  }
+
+  public getStatus(): KeyVaultStatus {
+    if (!this.isEnabled()) return 'off';
+    return this.isUnlocked() ? 'unlocked' : 'locked';
+  }
+
+  public async enable(passphrase: string, settings: APISettings): Promise<void> {
+    this.salt = createSalt();
+    this.iterations = undefined;
+    this.key = await deriveKey(passphrase, this.salt);
+    await this.seal(settings);
+  }
+
+  // Throws DecryptionError for a wrong passphrase
+  public async unlock(passphrase: string): Promise<ApiKeys> {
+    const vault = storageUtils.getKeyVault();
+    if (!vault) throw new DecryptionError('No encrypted keys are stored.');
+    const key = await deriveKey(passphrase, vault.salt, vault.iterations);
+    const keys = JSON.parse(await decryptWithKey(vault, key)) as ApiKeys;
+    this.key = key;
+    this.salt = vault.salt;
+    this.iterations = vault.iterations;
+    return keys;
+  }
+
+  // Re-encrypts the keys in the settings, e.g. after they were edited
+  public async seal(settings: APISettings): Promise<void> {
+    if (!this.key) throw new Error('The key vault is locked.');
+    const keys = extractApiKeys(settings);
+    const payload = await encryptWithKey(JSON.stringify(keys), this.key, this.salt, this.iterations);
+    storageUtils.saveKeyVault({ ...payload, endpointIds: Object.keys(keys.endpoints) });
+  }
+
+  // Known without the passphrase, so locked endpoints can be told apart from ones without a key
+  public getLockedEndpointIds(): string[] {
+    return storageUtils.getKeyVault()?.endpointIds ?? [];
+  }
+
+  public lock(): void {
+    this.key = null;
+  }
+
+  // The caller saves the settings again, with the keys in plain text or without them
+  public disable(): void {
+    this.lock();
+    storageUtils.deleteKeyVault();
+  }
+}
+
+export const keyVault = new KeyVault();
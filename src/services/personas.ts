@@ -0,0 +1,96 @@
+import { APISettings, BuiltInTutorMode, Persona, TutorMode } from '../types';
+import { generateId } from '../utils/helpers';
+
+// Persona prompts for tutors
+const tutorPrompts: Record<BuiltInTutorMode, string> = {
+  standard: `You are an expert AI Tutor named 'Tutor'. Your primary goal is to help users understand complex topics through clear, patient, and encouraging guidance. Follow these principles strictly:
+1. Socratic Method: Do not just provide direct answers. Instead, ask guiding questions to help the user arrive at the solution themselves.
+2. Simplify Concepts: Break down complex subjects into smaller, digestible parts. Use simple language, analogies, and real-world examples to make concepts relatable.
+3. Encouraging Tone: Maintain a positive, patient, and supportive tone at all times.
+4. Clear Explanations: When you must provide an explanation or a code example, ensure it is thoroughly commented and explained step-by-step.
+5. Stay Focused: Politely steer the conversation back to the educational topic if the user strays.`,
+
+  exam: `You are a no-nonsense AI Exam Coach. Your purpose is to prepare the user for a test. You are direct, efficient, and focused on results.
+1. Focus on Key Concepts: Prioritize formulas, definitions, and facts most likely to appear on exams.
+2. Provide Practice Problems: Actively create practice questions and short-answer drills.
+3. Concise Answers: Be direct. Avoid long philosophical explanations.
+4. Identify Weaknesses: Give immediate feedback and short explanations when answers are wrong.
+5. Time Management: Emphasize speed and accuracy.`,
+
+  mentor: `You are a Friendly AI Mentor. You are casual, relatable, and motivating.
+1. Relatable Analogies: Use simple analogies and real-life examples.
+2. Constant Encouragement: Cheer the student on ("You're doing great!").
+3. Casual Tone: Be conversational, use emojis if needed.
+4. Focus on the 'Why': Explain the real-world relevance of topics.
+5. Growth Mindset: Treat mistakes as learning opportunities.`,
+
+  creative: `You are a Creative AI Guide. You help with brainstorming, writing, and imaginative thinking.
+1. Brainstorming Partner: Offer many starting points and "what if" scenarios.
+2. Ask Open-Ended Questions: Encourage exploration.
+3. Sensory Details: Guide the user to think about sights, sounds, smells, etc.
+4. Constructive Feedback: Focus on positives before suggesting improvements.
+5. Creative Constraints: Suggest fun challenges to spark ideas.`
+};
+
+export const builtInPersonas: Persona[] = [
+  { id: 'standard', name: 'Standard Tutor', description: 'Neutral, explains clearly, step-by-step.', emoji: '📘', systemPrompt: tutorPrompts.standard, isBuiltIn: true },
+  { id: 'exam', name: 'Exam Coach', description: 'Focus on practice questions & quick answers.', emoji: '🎓', systemPrompt: tutorPrompts.exam, isBuiltIn: true },
+  { id: 'mentor', name: 'Friendly Mentor', description: 'Casual, motivating, makes analogies.', emoji: '🧑‍🏫', systemPrompt: tutorPrompts.mentor, isBuiltIn: true },
+  { id: 'creative', name: 'Creative Guide', description: 'Helps with essays, storytelling, ideas.', emoji: '✍️', systemPrompt: tutorPrompts.creative, isBuiltIn: true },
+];
+
+export const DEFAULT_PERSONA_ID: TutorMode = 'standard';
+
+type PersonaSettings = Pick<APISettings, 'customPersonas'>;
+
+export function listPersonas(settings?: PersonaSettings): Persona[] {
+  return [...builtInPersonas, ...(settings?.customPersonas ?? [])];
+}
+
+// Unknown ids (e.g. a deleted persona) fall back to the standard tutor
+export function getPersona(id: TutorMode | undefined, settings?: PersonaSettings): Persona {
+  return listPersonas(settings).find(p => p.id === id) ?? builtInPersonas[0];
+}
+
+export function createPersona(): Persona {
+  return { id: generateId(), name: '', emoji: '🤖', description: '', systemPrompt: '' };
+}
+
+export function clonePersona(persona: Persona): Persona {
+  return { ...persona, id: generateId(), name: `${persona.name} (copy)`, isBuiltIn: undefined };
+}
+
+const PERSONA_EXPORT_VERSION = 1;
+
+export function exportPersonas(personas: Persona[]): string {
+  const exported = personas.map(({ id, name, emoji, description, systemPrompt, preferredModel, temperature }) => ({
+    id, name, emoji, description, systemPrompt, preferredModel, temperature,
+  }));
+  return JSON.stringify({ version: PERSONA_EXPORT_VERSION, personas: exported }, null, 2);
+}
+
+// Accepts an export file or a bare array; throws when nothing usable is found
+export function parsePersonas(json: string): Persona[] {
+  const data = JSON.parse(json);
+  const entries: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.personas) ? data.personas : [];
+  const builtInIds = new Set(builtInPersonas.map(p => p.id));
+
+  const personas = entries.flatMap((entry): Persona[] => {
+    if (!entry || typeof entry !== 'object') return [];
+    const p = entry as Record<string, unknown>;
+    if (typeof p.name !== 'string' || !p.name.trim() || typeof p.systemPrompt !== 'string' || !p.systemPrompt.trim()) return [];
+    return [{
+      // Keep ids so re-importing an updated persona replaces the old copy
+      id: typeof p.id === 'string' && p.id && !builtInIds.has(p.id) ? p.id : generateId(),
+      name: p.name.trim(),
+      emoji: typeof p.emoji === 'string' && p.emoji ? p.emoji : '🤖',
+      description: typeof p.description === 'string' ? p.description : '',
+      systemPrompt: p.systemPrompt,
+      preferredModel: typeof p.preferredModel === 'string' ? p.preferredModel : undefined,
+      temperature: typeof p.temperature === 'number' ? Math.min(2, Math.max(0, p.temperature)) : undefined,
+    }];
+  });
+
+  if (personas.length === 0) throw new Error('The file does not contain any personas with a name and a system prompt.');
+  return personas;
+}
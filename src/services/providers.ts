@@ -0,0 +1,377 @@
+import { Sparkles, Zap, Brain, Cloud, Terminal, Server, LucideIcon } from 'lucide-react';
+import { APISettings, CredentialKey, CustomEndpoint, ModelId } from '../types';
+import { fetchWithRetry } from './http';
+
+export interface ChatMessage {
+  role: string;
+  content: string;
+}
+
+// What a model's API accepts natively. Adapters leave out unsupported
+// parameters and emulate a system prompt when there is no native one.
+export interface ProviderCapabilities {
+  systemInstruction: boolean;
+  jsonMode: boolean;
+  maxOutputTokens: boolean;
+  temperature: boolean;
+}
+
+export interface GenerationParams {
+  temperature?: number;
+  maxOutputTokens?: number;
+  json?: boolean; // Ask for a single JSON object
+}
+
+export interface StreamRequest extends GenerationParams {
+  endpoint: string;
+  apiKey: string;
+  model: string;
+  messages: ChatMessage[];
+  systemPrompt: string;
+  capabilities: ProviderCapabilities;
+  signal?: AbortSignal;
+}
+
+export type StreamAdapter = (request: StreamRequest) => AsyncGenerator<string>;
+
+export interface ModelProvider {
+  id: ModelId;
+  name: string;       // Shown in the model picker
+  nickname: string;   // Shown above assistant replies
+  icon: LucideIcon;
+  credential?: CredentialKey; // Settings key holding the API key; unset for custom endpoints
+  apiKey?: string;            // Inline key of a custom endpoint
+  isCustom?: boolean;
+  isKeyLocked?: boolean; // Custom endpoint whose key is still encrypted
+  endpoint: string;
+  model: string;
+  contextWindow: number;   // Max prompt + reply tokens
+  charsPerToken?: number;  // For token estimates; defaults to 4
+  capabilities: ProviderCapabilities;
+  stream: StreamAdapter;
+}
+
+export interface CredentialInfo {
+  key: CredentialKey;
+  name: string;
+  url: string;
+}
+
+// Reads an SSE body line by line and hands every `data:` payload to `parse`
+async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  parse: (data: string) => string | undefined,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  // Stops the download right away instead of waiting for the next chunk
+  const cancel = () => { reader.cancel().catch(() => {}); };
+  signal?.addEventListener('abort', cancel);
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      signal?.throwIfAborted();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        if (!line.startsWith('data: ')) continue;
+        const data = line.substring(6);
+        if (data.trim() === '[DONE]') return;
+        try {
+          const chunk = parse(data);
+          if (chunk) yield chunk;
+        } catch (e) {
+          console.error('Error parsing stream chunk:', e, 'Raw data:', data);
+        }
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+    // Also runs when the consumer stops iterating early
+    if (!signal?.aborted) reader.cancel().catch(() => {});
+  }
+}
+
+// Google Generative Language API (Gemini, Gemma)
+export async function* streamGoogleResponse({
+  endpoint, apiKey, model, messages, systemPrompt, capabilities, temperature, maxOutputTokens, json, signal,
+}: StreamRequest): AsyncGenerator<string> {
+  const url = `${endpoint}/models/${model}:streamGenerateContent?key=${apiKey}&alt=sse`;
+
+  const contents = messages.map(m => ({
+    role: m.role === 'assistant' ? 'model' : 'user',
+    parts: [{ text: m.content }],
+  }));
+  const generationConfig = {
+    ...(capabilities.temperature && temperature !== undefined ? { temperature } : {}),
+    ...(capabilities.maxOutputTokens && maxOutputTokens ? { maxOutputTokens } : {}),
+    ...(capabilities.jsonMode && json ? { responseMimeType: 'application/json' } : {}),
+  };
+  const body = capabilities.systemInstruction
+    ? { systemInstruction: { parts: [{ text: systemPrompt }] }, contents, generationConfig }
+    : {
+        // Gemma has no system role: open the dialogue with the instructions instead
+        contents: [
+          { role: 'user', parts: [{ text: systemPrompt }] },
+          { role: 'model', parts: [{ text: 'Understood. I will follow these instructions.' }] },
+          ...contents,
+        ],
+        generationConfig,
+      };
+
+  const response = await fetchWithRetry(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.body) throw new Error('API Error: empty response body');
+
+  yield* readServerSentEvents(response.body, data => JSON.parse(data).candidates?.[0]?.content?.parts?.[0]?.text, signal);
+}
+
+// OpenAI-compatible chat completions (Zhipu, Mistral, custom endpoints)
+export async function* streamOpenAICompatResponse({
+  endpoint, apiKey, model, messages, systemPrompt, capabilities, temperature, maxOutputTokens, json, signal,
+}: StreamRequest): AsyncGenerator<string> {
+  const messagesWithSystemPrompt = capabilities.systemInstruction
+    ? [{ role: 'system', content: systemPrompt }, ...messages]
+    : [{ role: 'user', content: systemPrompt }, { role: 'assistant', content: 'Understood. I will follow these instructions.' }, ...messages];
+
+  const response = await fetchWithRetry(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model,
+      messages: messagesWithSystemPrompt,
+      stream: true,
+      ...(capabilities.temperature && temperature !== undefined ? { temperature } : {}),
+      ...(capabilities.maxOutputTokens && maxOutputTokens ? { max_tokens: maxOutputTokens } : {}),
+      ...(capabilities.jsonMode && json ? { response_format: { type: 'json_object' } } : {}),
+    }),
+    signal,
+  });
+
+  if (!response.body) throw new Error('API Error: empty response body');
+
+  yield* readServerSentEvents(response.body, data => JSON.parse(data).choices?.[0]?.delta?.content, signal);
+}
+
+export const credentials: CredentialInfo[] = [
+  { key: 'googleApiKey', name: 'Google AI', url: 'https://aistudio.google.com/app/apikey' },
+  { key: 'zhipuApiKey', name: 'ZhipuAI', url: 'https://open.bigmodel.cn/' },
+  { key: 'mistralApiKey', name: 'Mistral', url: 'https://console.mistral.ai/api-keys' },
+];
+
+const registry = new Map<ModelId, ModelProvider>();
+
+export function registerProvider(provider: ModelProvider): void {
+  registry.set(provider.id, provider);
+}
+
+const OPENAI_COMPAT_CAPABILITIES: ProviderCapabilities = { systemInstruction: true, jsonMode: true, maxOutputTokens: true, temperature: true };
+
+registerProvider({
+  id: 'google',
+  name: 'Gemma',
+  nickname: 'Gemma',
+  icon: Sparkles,
+  credential: 'googleApiKey',
+  endpoint: 'https://generativelanguage.googleapis.com/v1beta',
+  model: 'gemma-3-27b-it',
+  contextWindow: 32_000,
+  // The Gemini API rejects system instructions and JSON mode for Gemma
+  capabilities: { systemInstruction: false, jsonMode: false, maxOutputTokens: true, temperature: true },
+  stream: streamGoogleResponse,
+});
+
+registerProvider({
+  id: 'gemini-flash',
+  name: 'Gemini Flash',
+  nickname: 'Flash',
+  icon: Zap,
+  credential: 'googleApiKey',
+  endpoint: 'https://generativelanguage.googleapis.com/v1beta',
+  model: 'gemini-2.5-flash',
+  contextWindow: 1_000_000,
+  capabilities: { systemInstruction: true, jsonMode: true, maxOutputTokens: true, temperature: true },
+  stream: streamGoogleResponse,
+});
+
+registerProvider({
+  id: 'zhipu',
+  name: 'ZhipuAI',
+  nickname: 'Zhipu',
+  icon: Brain,
+  credential: 'zhipuApiKey',
+  endpoint: 'https://open.bigmodel.cn/api/paas/v4/chat/completions',
+  model: 'glm-4.5-flash',
+  contextWindow: 128_000,
+  charsPerToken: 3,
+  capabilities: OPENAI_COMPAT_CAPABILITIES,
+  stream: streamOpenAICompatResponse,
+});
+
+registerProvider({
+  id: 'mistral-small',
+  name: 'Mistral',
+  nickname: 'Misty',
+  icon: Cloud,
+  credential: 'mistralApiKey',
+  endpoint: 'https://api.mistral.ai/v1/chat/completions',
+  model: 'mistral-small-latest',
+  contextWindow: 32_000,
+  capabilities: OPENAI_COMPAT_CAPABILITIES,
+  stream: streamOpenAICompatResponse,
+});
+
+registerProvider({
+  id: 'mistral-codestral',
+  name: 'Codestral',
+  nickname: 'Cody',
+  icon: Terminal,
+  credential: 'mistralApiKey',
+  endpoint: 'https://api.mistral.ai/v1/chat/completions',
+  model: 'codestral-latest',
+  contextWindow: 256_000,
+  capabilities: OPENAI_COMPAT_CAPABILITIES,
+  stream: streamOpenAICompatResponse,
+});
+
+export const DEFAULT_MODEL_ID: ModelId = 'google';
+
+const CUSTOM_PREFIX = 'custom:';
+const DEFAULT_CUSTOM_CONTEXT_WINDOW = 8192;
+
+export function customEndpointModelId(endpoint: CustomEndpoint): ModelId {
+  return `${CUSTOM_PREFIX}${endpoint.id}`;
+}
+
+// Accepts either a server root (http://localhost:11434/v1) or the full completions URL
+export function resolveChatCompletionsUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  return trimmed.endsWith('/chat/completions') ? trimmed : `${trimmed}/chat/completions`;
+}
+
+function customEndpointProvider(endpoint: CustomEndpoint): ModelProvider {
+  return {
+    id: customEndpointModelId(endpoint),
+    name: endpoint.label || endpoint.model,
+    nickname: endpoint.label || endpoint.model,
+    icon: Server,
+    apiKey: endpoint.apiKey,
+    isCustom: true,
+    isKeyLocked: endpoint.isKeyLocked,
+    endpoint: resolveChatCompletionsUrl(endpoint.baseUrl),
+    model: endpoint.model,
+    contextWindow: endpoint.contextWindow || DEFAULT_CUSTOM_CONTEXT_WINDOW,
+    // Local servers differ in what they honour; JSON mode is the least common
+    capabilities: { ...OPENAI_COMPAT_CAPABILITIES, jsonMode: false },
+    stream: streamOpenAICompatResponse,
+  };
+}
+
+type ProviderSettings = Pick<APISettings, 'customEndpoints'>;
+
+export function listProviders(settings?: ProviderSettings): ModelProvider[] {
+  const custom = (settings?.customEndpoints ?? [])
+    .filter(e => e.baseUrl.trim() && e.model.trim())
+    .map(customEndpointProvider);
+  return [...registry.values(), ...custom];
+}
+
+export function getProvider(id: ModelId | undefined, settings?: ProviderSettings): ModelProvider | undefined {
+  if (!id) return undefined;
+  if (id.startsWith(CUSTOM_PREFIX)) {
+    const endpoint = settings?.customEndpoints.find(e => customEndpointModelId(e) === id);
+    return endpoint ? customEndpointProvider(endpoint) : undefined;
+  }
+  return registry.get(id);
+}
+
+const IMPORTED_PREFIX = 'imported:';
+
+// Replies brought in from other apps keep the name of the model that wrote them
+export function importedModelId(name: string): ModelId {
+  return `${IMPORTED_PREFIX}${name}`;
+}
+
+export function getModelName(id: ModelId, settings?: ProviderSettings): string | undefined {
+  if (id.startsWith(IMPORTED_PREFIX)) return `${id.slice(IMPORTED_PREFIX.length)} (imported)`;
+  return getProvider(id, settings)?.nickname;
+}
+
+export function getCredentialName(key: CredentialKey): string {
+  return credentials.find(c => c.key === key)?.name ?? key;
+}
+
+// Every secret in the settings: the built-in credentials and custom endpoint keys
+export interface ApiKeys {
+  credentials: Partial<Record<CredentialKey, string>>;
+  endpoints: Record<string, string>; // By custom endpoint id
+}
+
+export function extractApiKeys(settings: APISettings): ApiKeys {
+  const keys: ApiKeys = { credentials: {}, endpoints: {} };
+  credentials.forEach(({ key }) => {
+    if (settings[key]) keys.credentials[key] = settings[key];
+  });
+  settings.customEndpoints.forEach(endpoint => {
+    if (endpoint.apiKey) keys.endpoints[endpoint.id] = endpoint.apiKey;
+  });
+  return keys;
+}
+
+const withoutLockFlag = (endpoint: CustomEndpoint): CustomEndpoint => {
+  const copy = { ...endpoint };
+  delete copy.isKeyLocked;
+  return copy;
+};
+
+export function withoutApiKeys(settings: APISettings): APISettings {
+  const blank = Object.fromEntries(credentials.map(({ key }) => [key, ''])) as Record<CredentialKey, string>;
+  return {
+    ...settings,
+    ...blank,
+    customEndpoints: settings.customEndpoints.map(endpoint => ({ ...withoutLockFlag(endpoint), apiKey: '' })),
+  };
+}
+
+// Settings while the key vault is locked: no keys, and endpoints that need one marked as locked
+export function lockApiKeys(settings: APISettings, lockedEndpointIds: string[]): APISettings {
+  const locked = withoutApiKeys(settings);
+  return {
+    ...locked,
+    customEndpoints: locked.customEndpoints.map(endpoint => (lockedEndpointIds.includes(endpoint.id) ? { ...endpoint, isKeyLocked: true } : endpoint)),
+  };
+}
+
+// Fills in the keys the settings lack; keys they already have are kept
+export function withApiKeys(settings: APISettings, keys: ApiKeys): APISettings {
+  const filled = { ...settings };
+  credentials.forEach(({ key }) => {
+    if (!filled[key] && keys.credentials[key]) filled[key] = keys.credentials[key]!;
+  });
+  filled.customEndpoints = settings.customEndpoints.map(endpoint =>
+    !endpoint.apiKey && keys.endpoints[endpoint.id] ? { ...withoutLockFlag(endpoint), apiKey: keys.endpoints[endpoint.id] } : withoutLockFlag(endpoint)
+  );
+  return filled;
+}
+
+export function resolveApiKey(provider: ModelProvider, settings: APISettings): string {
+  return provider.credential ? settings[provider.credential] : provider.apiKey ?? '';
+}
+
+export function isProviderConfigured(provider: ModelProvider, settings: APISettings): boolean {
+  // Custom endpoints may run without auth, so a URL and model are enough unless their key is locked
+  return provider.isCustom ? !provider.isKeyLocked : !!resolveApiKey(provider, settings);
+}
@@ -0,0 +1,217 @@
+import { QuizAnswer, QuizOptions, QuizQuestion, QuizQuestionType, QuizResponse } from '../types';
+import { generateId } from '../utils/helpers';
+
+export const quizQuestionTypes: { type: QuizQuestionType; label: string; format: string }[] = [
+  {
+    type: 'multiple-choice',
+    label: 'Multiple choice',
+    format: '"question", "options" (array of 4 distinct strings), "answer" (the correct option, copied exactly)',
+  },
+  {
+    type: 'true-false',
+    label: 'True / false',
+    format: '"question" (a statement to judge), "answer" (true or false)',
+  },
+  {
+    type: 'multi-select',
+    label: 'Select all that apply',
+    format: '"question", "options" (array of 4-6 distinct strings), "answers" (array of every correct option, copied exactly, at least 2)',
+  },
+  {
+    type: 'fill-blank',
+    label: 'Fill in the blank',
+    format: '"question" (a sentence with ___ in place of one missing word or short phrase), "answers" (array of accepted answers, including common spellings)',
+  },
+  {
+    type: 'short-answer',
+    label: 'Short answer',
+    format: '"question" (answerable in 1-3 sentences), "rubric" (the points a full-credit answer must make), "sampleAnswer"',
+  },
+];
+
+export const DEFAULT_QUIZ_OPTIONS: QuizOptions = {
+  count: 5,
+  difficulty: 'medium',
+  types: ['multiple-choice'],
+};
+
+export const MIN_QUIZ_QUESTIONS = 3;
+export const MAX_QUIZ_QUESTIONS = 15;
+
+export interface ShortAnswerGrade {
+  points: number; // 0-1
+  feedback: string;
+}
+
+// The part of the generation prompt that describes the requested mix
+export function describeQuizFormat({ count, difficulty, types }: QuizOptions): string {
+  const formats = quizQuestionTypes.filter(t => types.includes(t.type));
+  return `Create ${count} ${difficulty} questions${formats.length > 1 ? ', mixing the question types below roughly evenly' : ''}.
+
+Format the output as a single JSON object with a "questions" array.
+Each question must include "type" (${formats.map(f => `"${f.type}"`).join(' or ')}), "explanation" (string), and depending on the type:
+${formats.map(f => `- "${f.type}": ${f.format}`).join('\n')}`;
+}
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map(v => v.trim()) : [];
+
+const LETTER_PATTERN = /^\(?([A-Za-z])(?:[).:]\s*|\s*$)/;
+
+// Matches an answer given as the option text, a 0-based index or a letter ("B", "b)", "B. text")
+export function resolveOptionIndex(answer: unknown, options: string[]): number {
+  if (typeof answer === 'number') return Number.isInteger(answer) && answer >= 0 && answer < options.length ? answer : -1;
+  if (typeof answer !== 'string' || !answer.trim()) return -1;
+  const text = answer.trim();
+  const lowered = options.map(o => o.toLowerCase());
+
+  const exact = lowered.indexOf(text.toLowerCase());
+  if (exact !== -1) return exact;
+
+  const letter = text.match(LETTER_PATTERN);
+  if (letter) {
+    const index = letter[1].toUpperCase().charCodeAt(0) - 65;
+    const rest = text.slice(letter[0].length).trim().toLowerCase();
+    // "B) text" has to agree with option B when the text is there too
+    if (index < options.length && (!rest || rest === lowered[index])) return index;
+    const byText = rest ? lowered.indexOf(rest) : -1;
+    if (byText !== -1) return byText;
+  }
+
+  if (/^\d+$/.test(text)) return resolveOptionIndex(Number(text), options);
+  return -1;
+}
+
+export type QuestionValidation = { question: QuizQuestion } | { error: string };
+
+// Checks one generated entry against the schema for its type
+export function validateQuizQuestion(raw: unknown, allowedTypes: QuizQuestionType[]): QuestionValidation {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return { error: 'is not a JSON object' };
+  const q = raw as Record<string, unknown>;
+  if (typeof q.question !== 'string' || !q.question.trim()) return { error: 'has no "question" text' };
+  const type = q.type ?? 'multiple-choice';
+  if (typeof type !== 'string' || !quizQuestionTypes.some(t => t.type === type)) return { error: `has an unknown type ${JSON.stringify(type)}` };
+  if (!allowedTypes.includes(type as QuizQuestionType)) return { error: `is a "${type}" question, which was not requested` };
+
+  const base = {
+    id: generateId(),
+    question: q.question.trim(),
+    explanation: typeof q.explanation === 'string' ? q.explanation.trim() : '',
+  };
+  const options = stringList(q.options);
+  const hasOptions = options.length >= 2 && new Set(options.map(o => o.toLowerCase())).size === options.length;
+  const answer = q.answer ?? q.correctAnswer;
+
+  switch (type) {
+    case 'multiple-choice': {
+      if (!hasOptions) return { error: 'needs at least 2 distinct "options"' };
+      const correctAnswer = resolveOptionIndex(answer, options);
+      if (correctAnswer === -1) return { error: `has an "answer" (${JSON.stringify(answer)}) that matches none of its options` };
+      return { question: { ...base, type, options, correctAnswer } };
+    }
+    case 'true-false': {
+      const value = typeof answer === 'string' ? answer.trim().toLowerCase() : answer;
+      if (value !== true && value !== false && value !== 'true' && value !== 'false') return { error: 'needs an "answer" of true or false' };
+      return { question: { ...base, type, correctAnswer: value === true || value === 'true' } };
+    }
+    case 'multi-select': {
+      if (!hasOptions) return { error: 'needs at least 2 distinct "options"' };
+      const given = [q.answers ?? answer ?? []].flat();
+      const correctAnswers = given.map(a => resolveOptionIndex(a, options));
+      if (given.length === 0 || correctAnswers.includes(-1)) return { error: 'has "answers" that do not all match its options' };
+      return { question: { ...base, type, options, correctAnswers: Array.from(new Set(correctAnswers)).sort((a, b) => a - b) } };
+    }
+    case 'fill-blank': {
+      const acceptedAnswers = stringList([q.answers ?? answer ?? []].flat());
+      if (!base.question.includes('___')) return { error: 'has no ___ blank in its "question"' };
+      if (acceptedAnswers.length === 0) return { error: 'has no accepted "answers"' };
+      return { question: { ...base, type, acceptedAnswers } };
+    }
+    default: {
+      const rubric = typeof q.rubric === 'string' ? q.rubric.trim() : '';
+      if (!rubric) return { error: 'has no "rubric"' };
+      return { question: { ...base, type: 'short-answer', rubric, sampleAnswer: typeof q.sampleAnswer === 'string' ? q.sampleAnswer.trim() : '' } };
+    }
+  }
+}
+
+export interface InvalidQuestion {
+  raw: unknown;
+  error: string;
+}
+
+// Splits a generated payload ({ questions: [...] } or a bare array) into usable and invalid questions
+export function validateQuizPayload(payload: unknown, allowedTypes: QuizQuestionType[]): { questions: QuizQuestion[]; invalid: InvalidQuestion[] } {
+  const entries = Array.isArray(payload)
+    ? payload
+    : payload && typeof payload === 'object' && Array.isArray((payload as { questions?: unknown }).questions)
+      ? (payload as { questions: unknown[] }).questions
+      : null;
+  if (!entries) throw new Error('Quiz JSON missing questions array.');
+
+  const questions: QuizQuestion[] = [];
+  const invalid: InvalidQuestion[] = [];
+  for (const raw of entries) {
+    const result = validateQuizQuestion(raw, allowedTypes);
+    if ('question' in result) questions.push(result.question);
+    else invalid.push({ raw, error: result.error });
+  }
+  return { questions, invalid };
+}
+
+// Quizzes saved before question types existed only hold multiple-choice questions
+export function withQuestionType(question: QuizQuestion): QuizQuestion {
+  return question.type ? question : { ...(question as object), type: 'multiple-choice' } as QuizQuestion;
+}
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}\s.-]/gu, '').replace(/\s+/g, ' ').trim();
+
+// Grades every type except short answers, which need the model
+export function gradeResponse(question: QuizQuestion, response: QuizResponse): Pick<QuizAnswer, 'isCorrect' | 'points'> | null {
+  switch (question.type) {
+    case 'multiple-choice':
+    case 'true-false': {
+      const isCorrect = response === question.correctAnswer;
+      return { isCorrect, points: isCorrect ? 1 : 0 };
+    }
+    case 'multi-select': {
+      const chosen = Array.isArray(response) ? response : [];
+      const hits = chosen.filter(i => question.correctAnswers.includes(i)).length;
+      const misses = chosen.length - hits;
+      // Each wrong pick cancels a right one
+      const points = Math.max(0, (hits - misses) / question.correctAnswers.length);
+      return { isCorrect: points === 1 && hits === question.correctAnswers.length, points };
+    }
+    case 'fill-blank': {
+      const given = typeof response === 'string' ? normalizeText(response) : '';
+      const isCorrect = given !== '' && question.acceptedAnswers.some(a => normalizeText(a) === given);
+      return { isCorrect, points: isCorrect ? 1 : 0 };
+    }
+    case 'short-answer':
+      return null;
+  }
+}
+
+export function answerPoints(answer: QuizAnswer): number {
+  return answer.points ?? (answer.isCorrect ? 1 : 0);
+}
+
+// Scores are whole numbers unless partial credit was given
+export function formatScore(score: number): string {
+  return Number.isInteger(score) ? String(score) : score.toFixed(1);
+}
+
+export function describeCorrectAnswer(question: QuizQuestion): string {
+  switch (question.type) {
+    case 'multiple-choice':
+      return question.options[question.correctAnswer];
+    case 'true-false':
+      return question.correctAnswer ? 'True' : 'False';
+    case 'multi-select':
+      return question.correctAnswers.map(i => question.options[i]).join(', ');
+    case 'fill-blank':
+      return question.acceptedAnswers.join(' / ');
+    case 'short-answer':
+      return question.sampleAnswer;
+  }
+}
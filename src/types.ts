@@ -1,4 +1,31 @@
-export type TutorMode = 'standard' | 'exam' | 'mentor' | 'creative';
+export type BuiltInTutorMode = 'standard' | 'exam' | 'mentor' | 'creative';
+
+// Id of a built-in mode or of a custom persona
+export type TutorMode = string;
+
+// Id of a provider registered in services/providers
+export type ModelId = string;
+
+export type CredentialKey = 'googleApiKey' | 'zhipuApiKey' | 'mistralApiKey';
+
+// Rolled-up summary of older turns that no longer fit the model's context window
+export interface ContextSummary {
+  content: string;
+  throughMessageId: string; // Last message the summary covers
+  tokenCount: number;
+  createdAt: Date;
+}
+
+export interface Persona {
+  id: TutorMode;
+  name: string;
+  emoji: string;
+  description: string;
+  systemPrompt: string;
+  preferredModel?: ModelId; // Selected along with the persona
+  temperature?: number;     // Provider default when unset
+  isBuiltIn?: boolean;
+}
 
 export interface Conversation {
   id: string;
@@ -7,6 +34,12 @@ export interface Conversation {
   createdAt: Date;
   updatedAt: Date;
   isPinned?: boolean;
+  activeLeafId?: string; // Last message of the branch being shown
+  contextSummary?: ContextSummary;
+  tutorMode?: TutorMode; // Set from the settings when the chat is created
+  model?: ModelId;
+  folderId?: string; // Unfiled when unset
+  tags?: string[];
 }
 
 export interface Message {
@@ -14,10 +47,16 @@ export interface Message {
   content: string;
   role: 'user' | 'assistant';
   timestamp: Date;
-  model?: 'google' | 'zhipu' | 'mistral-small' | 'mistral-codestral';
+  parentId?: string | null; // null for the first message; siblings are alternate branches
+  model?: ModelId;
   isEditing?: boolean;
+  isStopped?: boolean; // Generation was cancelled; content holds the partial reply
 }
 
+// 'resend' branches off an edited user message and streams a fresh reply;
+// 'save-only' keeps downstream replies untouched (e.g. for typo fixes)
+export type EditMode = 'resend' | 'save-only';
+
 export interface Note {
   id: string;
   title: string;
@@ -25,34 +64,134 @@ export interface Note {
   createdAt: Date;
   updatedAt: Date;
   sourceConversationId?: string;
+  sourceMessageId?: string; // The reply the note was first saved from
+  folderId?: string; // Unfiled when unset
+  tags?: string[];
+}
+
+export type LibraryItemKind = 'conversation' | 'note';
+
+// A subject or course; holds both chats and notes
+export interface Folder {
+  id: string;
+  name: string;
+  createdAt: Date;
+}
+
+export interface FlashcardDeck {
+  id: string;
+  name: string;
+  sourceId?: string; // Conversation or note the cards were generated from
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Flashcard {
+  id: string;
+  deckId: string;
+  front: string;
+  back: string;
+  sourceConversationId?: string; // Conversation the card was generated from
+  sourceNoteId?: string;
+  // SM-2 scheduling state
+  easeFactor: number;
+  interval: number; // Days until the next review after the last successful one
+  repetitions: number; // Successful reviews in a row
+  dueDate: Date;
+  lastReviewedAt?: Date;
+  createdAt: Date;
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// A user-configured OpenAI-compatible server (Ollama, llama.cpp, vLLM, ...)
+export interface CustomEndpoint {
+  id: string;
+  label: string;
+  baseUrl: string;
+  apiKey: string; // Optional, empty for servers without auth
+  model: string;
+  contextWindow?: number; // Tokens; local servers often run with small windows
+  isKeyLocked?: boolean; // Its key is in the locked key vault, so it cannot be used yet
+}
+
+export type ApiErrorKind = 'auth' | 'rate-limit' | 'quota' | 'network' | 'server' | 'bad-request';
+
+// A failed reply, shown below the conversation until retried or dismissed
+export interface ReplyError {
+  message: string;
+  kind?: ApiErrorKind;
 }
 
 export interface APISettings {
   googleApiKey: string;
   zhipuApiKey: string;
   mistralApiKey: string;
-  selectedModel: 'google' | 'zhipu' | 'mistral-small' | 'mistral-codestral';
+  customEndpoints: CustomEndpoint[];
+  selectedModel: ModelId;
+  fallbackModels: ModelId[]; // Tried in order when the selected model fails
+  quizOptions: QuizOptions; // Last used quiz generation options
   selectedTutorMode: TutorMode;
+  customPersonas: Persona[];
   theme: 'light' | 'dark' | 'system'; // New theme setting
+  autoLockMinutes: number; // Idle time before encrypted API keys are locked again; 0 never
 }
 
 export interface StudySession {
   id: string;
   conversationId: string;
+  title: string; // Conversation title when the quiz was made; the chat may be gone later
   questions: QuizQuestion[];
+  attempts: QuizAttempt[];
   currentQuestionIndex: number;
-  score: number;
+  score: number; // Of the latest attempt
+  droppedQuestions?: number; // Generated questions that failed validation and were left out
   totalQuestions: number;
   isCompleted: boolean;
   createdAt: Date;
 }
 
-export interface QuizQuestion {
+export interface QuizAnswer {
+  questionId: string;
+  answer: QuizResponse;
+  isCorrect: boolean;
+  points?: number; // 0-1 with partial credit; 1 or 0 from isCorrect when unset
+  feedback?: string; // Grader's comment on a short answer
+  timeMs: number; // From showing the question to answering it
+}
+
+// One run through a quiz; unfinished when closed before the last question
+export interface QuizAttempt {
+  id: string;
+  startedAt: Date;
+  completedAt?: Date;
+  answers: QuizAnswer[];
+  score: number;
+}
+
+interface QuizQuestionBase {
   id: string;
   question: string;
-  options: string[];
-  correctAnswer: number;
   explanation: string;
-  userAnswer?: number;
-  isCorrect?: boolean;
+}
+
+export type QuizQuestion = QuizQuestionBase & (
+  | { type: 'multiple-choice'; options: string[]; correctAnswer: number }
+  | { type: 'true-false'; correctAnswer: boolean }
+  | { type: 'multi-select'; options: string[]; correctAnswers: number[] }
+  | { type: 'fill-blank'; acceptedAnswers: string[] } // `question` marks the gap with ___
+  | { type: 'short-answer'; rubric: string; sampleAnswer: string } // Graded by the model
+);
+
+export type QuizQuestionType = QuizQuestion['type'];
+
+// Option index, true/false, option indexes, or typed text, depending on the question type
+export type QuizResponse = number | boolean | number[] | string;
+
+export type QuizDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface QuizOptions {
+  count: number;
+  difficulty: QuizDifficulty;
+  types: QuizQuestionType[]; // Mix to draw from
 }
@@ -0,0 +1,330 @@
+import { APISettings, Conversation, CustomEndpoint, Flashcard, FlashcardDeck, Folder, Message, Note, StudySession } from '../types';
+import { MAX_QUIZ_QUESTIONS, MIN_QUIZ_QUESTIONS, quizQuestionTypes, withQuestionType } from '../services/quiz';
+import { withoutApiKeys } from '../services/providers';
+import { linkLegacyMessages } from './messageTree';
+import { EXPORT_FORMAT_ID } from './export';
+import { StoredData } from './storage';
+import { EncryptedPayload, isEncryptedPayload } from './crypto';
+
+// Full backups share the layout of the JSON export (see ExportFile) plus quizzes,
+// flashcards and settings. Files from before the format was versioned count as version 0.
+// API keys are left out of the settings; when asked for, they are added as `apiKeys`,
+// encrypted with a passphrase of their own (see EncryptedPayload).
+export const BACKUP_FORMAT_ID = 'ai-tutor-backup';
+export const BACKUP_VERSION = 1;
+
+export type BackupData = Required<StoredData>;
+export type BackupCollection = keyof BackupData;
+
+export interface BackupFile extends BackupData {
+  format: typeof BACKUP_FORMAT_ID;
+  version: number;
+  exportedAt: string;
+  settings?: APISettings;
+  apiKeys?: EncryptedPayload; // The ApiKeys as JSON
+}
+
+export interface ParsedBackup {
+  data: BackupData;
+  settings?: Partial<APISettings>;
+  version: number;
+  exportedAt?: Date;
+  encryptedKeys?: EncryptedPayload;
+  source?: string; // Set when the chats come from another app rather than a backup
+  skipped: string[]; // Why individual records were left out
+}
+
+export interface CollectionPreview {
+  incoming: number;
+  added: number; // Not stored yet
+  updated: number; // Stored, but the file has a newer copy
+  kept: number; // Stored copy is as new or newer
+  removed: number; // Stored but missing from the file, so deleted by a replace
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export const backupCollections: { key: BackupCollection; label: string }[] = [
+  { key: 'conversations', label: 'Chats' },
+  { key: 'notes', label: 'Notes' },
+  { key: 'folders', label: 'Folders' },
+  { key: 'quizzes', label: 'Quizzes' },
+  { key: 'decks', label: 'Flashcard decks' },
+  { key: 'flashcards', label: 'Flashcards' },
+];
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+export function createBackup(data: BackupData, settings?: APISettings, apiKeys?: EncryptedPayload): BackupFile {
+  return {
+    format: BACKUP_FORMAT_ID,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...data,
+    ...(settings ? { settings: withoutApiKeys(settings) } : {}),
+    ...(apiKeys ? { apiKeys } : {}),
+  };
+}
+
+// --- VALIDATION ---
+type Validation<T> = { record: T } | { error: string };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function toDate(value: unknown): Date | null {
+  if (typeof value !== 'string' && typeof value !== 'number' && !(value instanceof Date)) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Checks the required string fields and revives dates, which JSON stores as strings
+function readFields(raw: unknown, strings: string[], dates: string[], optionalDates: string[] = []): Validation<Record<string, unknown>> {
+  if (!isObject(raw)) return { error: 'is not an object' };
+  const missing = strings.find(key => typeof raw[key] !== 'string');
+  if (missing) return { error: `has no "${missing}"` };
+
+  const record: Record<string, unknown> = { ...raw };
+  for (const key of [...dates, ...optionalDates]) {
+    if (raw[key] === undefined && optionalDates.includes(key)) continue;
+    const date = toDate(raw[key]);
+    if (!date) return { error: `has an invalid "${key}" date` };
+    record[key] = date;
+  }
+  return { record };
+}
+
+function toConversation(raw: unknown): Validation<Conversation> {
+  const result = readFields(raw, ['id', 'title'], ['createdAt', 'updatedAt']);
+  if ('error' in result) return result;
+  if (!Array.isArray(result.record.messages)) return { error: 'has no "messages" list' };
+
+  const messages: Message[] = [];
+  for (const rawMessage of result.record.messages) {
+    const message = readFields(rawMessage, ['id', 'content'], ['timestamp']);
+    if ('error' in message) return { error: `has a message that ${message.error}` };
+    if (message.record.role !== 'user' && message.record.role !== 'assistant') return { error: 'has a message with an unknown role' };
+    messages.push(message.record as unknown as Message);
+  }
+  return { record: { ...result.record, messages: linkLegacyMessages(messages) } as unknown as Conversation };
+}
+
+function toNote(raw: unknown): Validation<Note> {
+  const result = readFields(raw, ['id', 'title', 'content'], ['createdAt', 'updatedAt']);
+  return 'error' in result ? result : { record: result.record as unknown as Note };
+}
+
+function toFolder(raw: unknown): Validation<Folder> {
+  const result = readFields(raw, ['id', 'name'], ['createdAt']);
+  return 'error' in result ? result : { record: result.record as unknown as Folder };
+}
+
+function toQuiz(raw: unknown): Validation<StudySession> {
+  const result = readFields(raw, ['id', 'title'], ['createdAt']);
+  if ('error' in result) return result;
+  const { questions, attempts = [] } = result.record;
+  if (!Array.isArray(questions) || !questions.every(q => isObject(q) && typeof q.question === 'string')) {
+    return { error: 'has no valid "questions" list' };
+  }
+  if (!Array.isArray(attempts)) return { error: 'has an invalid "attempts" list' };
+
+  const revivedAttempts = [];
+  for (const rawAttempt of attempts) {
+    const attempt = readFields(rawAttempt, ['id'], ['startedAt'], ['completedAt']);
+    if ('error' in attempt) return { error: `has an attempt that ${attempt.error}` };
+    revivedAttempts.push({ answers: [], score: 0, ...attempt.record });
+  }
+  return {
+    record: {
+      ...result.record,
+      questions: questions.map(q => withQuestionType(q as StudySession['questions'][number])),
+      attempts: revivedAttempts,
+    } as unknown as StudySession,
+  };
+}
+
+function toDeck(raw: unknown): Validation<FlashcardDeck> {
+  const result = readFields(raw, ['id', 'name'], ['createdAt', 'updatedAt']);
+  return 'error' in result ? result : { record: result.record as unknown as FlashcardDeck };
+}
+
+function toFlashcard(raw: unknown): Validation<Flashcard> {
+  const result = readFields(raw, ['id', 'deckId', 'front', 'back'], ['dueDate', 'createdAt'], ['lastReviewedAt']);
+  if ('error' in result) return result;
+  // Scheduling fields fall back to a card that has never been reviewed
+  return { record: { easeFactor: 2.5, interval: 0, repetitions: 0, ...result.record } as unknown as Flashcard };
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isOptional = (value: unknown, check: (v: unknown) => boolean) => value === undefined || check(value);
+
+const isCustomEndpoint = (value: unknown) =>
+  isObject(value) && [value.id, value.label, value.baseUrl, value.model].every(isString) && isOptional(value.apiKey, isString)
+  && isOptional(value.contextWindow, v => typeof v === 'number' && v > 0);
+
+const isPersona = (value: unknown) =>
+  isObject(value) && [value.id, value.name, value.emoji, value.description, value.systemPrompt].every(isString)
+  && isOptional(value.preferredModel, isString) && isOptional(value.temperature, v => typeof v === 'number');
+
+const isQuizOptions = (value: unknown) =>
+  isObject(value) && typeof value.count === 'number' && value.count >= MIN_QUIZ_QUESTIONS && value.count <= MAX_QUIZ_QUESTIONS
+  && ['easy', 'medium', 'hard'].includes(value.difficulty as string)
+  && Array.isArray(value.types) && value.types.length > 0 && value.types.every(type => quizQuestionTypes.some(t => t.type === type));
+
+// Every setting a backup may restore; anything else in the file is ignored
+const settingChecks: Record<keyof APISettings, (value: unknown) => boolean> = {
+  googleApiKey: isString,
+  zhipuApiKey: isString,
+  mistralApiKey: isString,
+  customEndpoints: value => Array.isArray(value) && value.every(isCustomEndpoint),
+  selectedModel: isString,
+  fallbackModels: value => Array.isArray(value) && value.every(isString),
+  quizOptions: isQuizOptions,
+  selectedTutorMode: isString,
+  customPersonas: value => Array.isArray(value) && value.every(isPersona),
+  theme: value => value === 'light' || value === 'dark' || value === 'system',
+  autoLockMinutes: value => typeof value === 'number' && value >= 0,
+};
+
+function readSettings(raw: unknown, skipped: string[]): Partial<APISettings> | undefined {
+  if (raw === undefined) return undefined;
+  if (!isObject(raw)) {
+    skipped.push('The settings are not an object and were ignored');
+    return undefined;
+  }
+  const settings: Record<string, unknown> = {};
+  for (const [key, check] of Object.entries(settingChecks)) {
+    if (raw[key] === undefined) continue;
+    if (check(raw[key])) settings[key] = key === 'customEndpoints' ? (raw[key] as CustomEndpoint[]).map(e => ({ ...e, apiKey: e.apiKey ?? '' })) : raw[key];
+    else skipped.push(`The "${key}" setting is invalid and was ignored`);
+  }
+  return settings as Partial<APISettings>;
+}
+
+function validateList<T>(value: unknown, noun: string, validate: (raw: unknown) => Validation<T>, skipped: string[]): T[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    skipped.push(`The ${noun} list is not a list and was ignored`);
+    return [];
+  }
+  const records: T[] = [];
+  const seen = new Set<string>();
+  value.forEach((raw, index) => {
+    const result = validate(raw);
+    if ('error' in result) {
+      skipped.push(`${noun[0].toUpperCase()}${noun.slice(1)} ${index + 1} ${result.error}`);
+    } else if (seen.has((result.record as { id: string }).id)) {
+      skipped.push(`${noun[0].toUpperCase()}${noun.slice(1)} ${index + 1} repeats an id that is already in the file`);
+    } else {
+      seen.add((result.record as { id: string }).id);
+      records.push(result.record);
+    }
+  });
+  return records;
+}
+
+// Reads a backup or JSON export, keeping every record that passes validation
+export function parseBackup(text: string): ParsedBackup {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BackupError('The file is not valid JSON.');
+  }
+  if (!isObject(raw)) throw new BackupError('The file does not contain an AI Tutor backup.');
+
+  if (raw.format !== undefined && raw.format !== BACKUP_FORMAT_ID && raw.format !== EXPORT_FORMAT_ID) {
+    throw new BackupError(`Unrecognized file format ${JSON.stringify(raw.format)}.`);
+  }
+  const version = raw.format === undefined ? 0 : raw.version;
+  if (typeof version !== 'number' || !Number.isInteger(version)) throw new BackupError('The backup has no valid version number.');
+  if (version > BACKUP_VERSION) {
+    throw new BackupError(`This backup was made by a newer version of AI Tutor (format ${version}). Update the app to import it.`);
+  }
+  if (!backupCollections.some(({ key }) => Array.isArray(raw[key]))) {
+    throw new BackupError('The file contains no chats, notes, quizzes or flashcards.');
+  }
+
+  const skipped: string[] = [];
+  const data: BackupData = {
+    conversations: validateList(raw.conversations, 'chat', toConversation, skipped),
+    notes: validateList(raw.notes, 'note', toNote, skipped),
+    folders: validateList(raw.folders, 'folder', toFolder, skipped),
+    quizzes: validateList(raw.quizzes, 'quiz', toQuiz, skipped),
+    decks: validateList(raw.decks, 'deck', toDeck, skipped),
+    flashcards: validateList(raw.flashcards, 'flashcard', toFlashcard, skipped),
+  };
+
+  return {
+    data,
+    settings: readSettings(raw.settings, skipped),
+    version,
+    exportedAt: toDate(raw.exportedAt ?? raw.exportDate) ?? undefined,
+    encryptedKeys: isEncryptedPayload(raw.apiKeys) ? raw.apiKeys : undefined,
+    skipped,
+  };
+}
+
+// --- MERGING ---
+const time = (date: Date | undefined) => (date ? new Date(date).getTime() : 0);
+
+// When each record last changed, which decides the copy a merge keeps
+const changedAt = {
+  conversations: (c: Conversation) => time(c.updatedAt),
+  notes: (n: Note) => time(n.updatedAt),
+  folders: (f: Folder) => time(f.createdAt),
+  quizzes: (q: StudySession) => Math.max(time(q.createdAt), ...q.attempts.map(a => time(a.completedAt ?? a.startedAt))),
+  decks: (d: FlashcardDeck) => time(d.updatedAt),
+  flashcards: (c: Flashcard) => time(c.lastReviewedAt ?? c.createdAt),
+};
+
+function compareRecords<T extends { id: string }>(current: T[], incoming: T[], getChangedAt: (record: T) => number): CollectionPreview {
+  const currentById = new Map(current.map(r => [r.id, r]));
+  const incomingIds = new Set(incoming.map(r => r.id));
+  const preview = { incoming: incoming.length, added: 0, updated: 0, kept: 0, removed: current.filter(r => !incomingIds.has(r.id)).length };
+  for (const record of incoming) {
+    const existing = currentById.get(record.id);
+    if (!existing) preview.added++;
+    else if (getChangedAt(record) > getChangedAt(existing)) preview.updated++;
+    else preview.kept++;
+  }
+  return preview;
+}
+
+function mergeRecords<T extends { id: string }>(current: T[], incoming: T[], getChangedAt: (record: T) => number): T[] {
+  const incomingById = new Map(incoming.map(r => [r.id, r]));
+  const currentIds = new Set(current.map(r => r.id));
+  const merged = current.map(record => {
+    const candidate = incomingById.get(record.id);
+    return candidate && getChangedAt(candidate) > getChangedAt(record) ? candidate : record;
+  });
+  return [...merged, ...incoming.filter(r => !currentIds.has(r.id))];
+}
+
+export function previewImport(current: BackupData, incoming: BackupData): Record<BackupCollection, CollectionPreview> {
+  return {
+    conversations: compareRecords(current.conversations, incoming.conversations, changedAt.conversations),
+    notes: compareRecords(current.notes, incoming.notes, changedAt.notes),
+    folders: compareRecords(current.folders, incoming.folders, changedAt.folders),
+    quizzes: compareRecords(current.quizzes, incoming.quizzes, changedAt.quizzes),
+    decks: compareRecords(current.decks, incoming.decks, changedAt.decks),
+    flashcards: compareRecords(current.flashcards, incoming.flashcards, changedAt.flashcards),
+  };
+}
+
+// Dedupes by id; the copy with the newest change wins and ties keep what is stored
+export function mergeBackup(current: BackupData, incoming: BackupData): BackupData {
+  return {
+    conversations: mergeRecords(current.conversations, incoming.conversations, changedAt.conversations),
+    notes: mergeRecords(current.notes, incoming.notes, changedAt.notes),
+    folders: mergeRecords(current.folders, incoming.folders, changedAt.folders),
+    quizzes: mergeRecords(current.quizzes, incoming.quizzes, changedAt.quizzes),
+    decks: mergeRecords(current.decks, incoming.decks, changedAt.decks),
+    flashcards: mergeRecords(current.flashcards, incoming.flashcards, changedAt.flashcards),
+  };
+}
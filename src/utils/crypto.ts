@@ -0,0 +1,69 @@
+// Passphrase-based encryption with the Web Crypto API: PBKDF2 turns the
+// passphrase into an AES-GCM key, and GCM rejects a wrong key or tampered data.
+
+const PBKDF2_ITERATIONS = 600_000;
+
+export interface EncryptedPayload {
+  algorithm: 'AES-GCM';
+  kdf: 'PBKDF2-SHA-256';
+  iterations: number;
+  salt: string; // Base64
+  iv: string; // Base64, new for every encryption
+  data: string; // Base64 ciphertext
+}
+
+export class DecryptionError extends Error {
+  constructor(message = 'Wrong passphrase.') {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+export function createSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+// The key cannot be exported, so it never leaves memory
+export async function deriveKey(passphrase: string, salt: string, iterations = PBKDF2_ITERATIONS): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+export async function encryptWithKey(text: string, key: CryptoKey, salt: string, iterations = PBKDF2_ITERATIONS): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return { algorithm: 'AES-GCM', kdf: 'PBKDF2-SHA-256', iterations, salt, iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+export async function decryptWithKey(payload: EncryptedPayload, key: CryptoKey): Promise<string> {
+  try {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data));
+    return new TextDecoder().decode(data);
+  } catch {
+    throw new DecryptionError();
+  }
+}
+
+export async function encryptText(text: string, passphrase: string): Promise<EncryptedPayload> {
+  const salt = createSalt();
+  return encryptWithKey(text, await deriveKey(passphrase, salt), salt);
+}
+
+export async function decryptText(payload: EncryptedPayload, passphrase: string): Promise<string> {
+  return decryptWithKey(payload, await deriveKey(passphrase, payload.salt, payload.iterations));
+}
+
+export function isEncryptedPayload(value: unknown): value is EncryptedPayload {
+  if (typeof value !== 'object' || value === null) return false;
+  const { algorithm, iterations, salt, iv, data } = value as Record<string, unknown>;
+  return algorithm === 'AES-GCM' && typeof iterations === 'number' && [salt, iv, data].every(part => typeof part === 'string');
+}
@@ -0,0 +1,214 @@
+import { Conversation, Message, Note } from '../types';
+import { linkLegacyMessages } from './messageTree';
+
+const DB_NAME = 'ai-tutor';
+export const DB_VERSION = 5;
+
+export const STORES = {
+  conversations: 'conversations',
+  messages: 'messages',
+  notes: 'notes',
+  quizzes: 'quizzes',
+  decks: 'decks',
+  flashcards: 'flashcards',
+  folders: 'folders',
+  meta: 'meta',
+} as const;
+
+// Legacy localStorage keys, imported by the first migration
+export const LEGACY_CONVERSATIONS_KEY = 'ai-tutor-conversations';
+export const LEGACY_NOTES_KEY = 'ai-tutor-notes';
+
+export type ConversationRecord = Omit<Conversation, 'messages'>;
+
+export interface MessageRecord extends Message {
+  conversationId: string;
+  position: number;
+}
+
+// A migration upgrades the schema from `version - 1` to `version` inside the
+// versionchange transaction, so a failing step rolls back the whole upgrade.
+interface Migration {
+  version: number;
+  migrate: (db: IDBDatabase, tx: IDBTransaction) => void;
+}
+
+const migrations: Migration[] = [
+  {
+    version: 1,
+    migrate: (db, tx) => {
+      db.createObjectStore(STORES.conversations, { keyPath: 'id' });
+      const messages = db.createObjectStore(STORES.messages, { keyPath: 'id' });
+      messages.createIndex('conversationId', 'conversationId');
+      db.createObjectStore(STORES.notes, { keyPath: 'id' });
+      db.createObjectStore(STORES.meta, { keyPath: 'key' });
+      importLegacyData(tx);
+    },
+  },
+  {
+    version: 2,
+    migrate: (_db, tx) => {
+      // Messages form a tree from now on: chain existing ones into a single branch
+      const store = tx.objectStore(STORES.messages);
+      const request = store.getAll();
+      request.onsuccess = () => {
+        const byConversation = new Map<string, MessageRecord[]>();
+        for (const record of request.result as MessageRecord[]) {
+          byConversation.set(record.conversationId, [...(byConversation.get(record.conversationId) ?? []), record]);
+        }
+        for (const records of byConversation.values()) {
+          records.sort((a, b) => a.position - b.position);
+          linkLegacyMessages(records).forEach(record => store.put(record));
+        }
+      };
+    },
+  },
+  {
+    version: 3,
+    migrate: (db) => {
+      const quizzes = db.createObjectStore(STORES.quizzes, { keyPath: 'id' });
+      quizzes.createIndex('conversationId', 'conversationId');
+    },
+  },
+  {
+    version: 4,
+    migrate: (db) => {
+      db.createObjectStore(STORES.decks, { keyPath: 'id' });
+      const flashcards = db.createObjectStore(STORES.flashcards, { keyPath: 'id' });
+      flashcards.createIndex('deckId', 'deckId');
+      flashcards.createIndex('dueDate', 'dueDate');
+    },
+  },
+  {
+    version: 5,
+    migrate: (db) => {
+      db.createObjectStore(STORES.folders, { keyPath: 'id' });
+    },
+  },
+];
+
+// Legacy keys whose entries all imported during the upgrade, removed once it has committed.
+// A key with skipped entries keeps its copy, and the skipped count is reported.
+let legacyKeysImported: string[] = [];
+let legacySkippedCount = 0;
+
+// Entries the last upgrade could not import; reported once
+export function takeSkippedLegacyCount(): number {
+  const count = legacySkippedCount;
+  legacySkippedCount = 0;
+  return count;
+}
+
+// An unreadable copy is left in place rather than lost
+function readLegacyList<T>(key: string): T[] | null {
+  const stored = localStorage.getItem(key);
+  if (!stored) return null;
+  try {
+    const list = JSON.parse(stored);
+    if (Array.isArray(list)) return list as T[];
+  } catch (error) {
+    console.error(`Error reading legacy data from "${key}":`, error);
+    return null;
+  }
+  console.error(`Legacy data in "${key}" is not a list and was not imported`);
+  return null;
+}
+
+// Runs inside onupgradeneeded, so a bad entry is skipped instead of aborting the upgrade
+function importLegacyData(tx: IDBTransaction) {
+  const conversations = readLegacyList<Conversation>(LEGACY_CONVERSATIONS_KEY);
+  const notes = readLegacyList<Note>(LEGACY_NOTES_KEY);
+  if (!conversations && !notes) return;
+
+  let skippedConversations = 0;
+  for (const conv of conversations ?? []) {
+    try {
+      const { messages, ...record } = conv;
+      tx.objectStore(STORES.conversations).put({
+        ...record,
+        createdAt: new Date(conv.createdAt),
+        updatedAt: new Date(conv.updatedAt),
+      });
+      (messages ?? []).forEach((msg, position) => {
+        tx.objectStore(STORES.messages).put({
+          ...msg,
+          timestamp: new Date(msg.timestamp),
+          conversationId: conv.id,
+          position,
+        });
+      });
+    } catch (error) {
+      console.error('Skipping a legacy conversation that could not be imported:', error);
+      skippedConversations++;
+    }
+  }
+  let skippedNotes = 0;
+  for (const note of notes ?? []) {
+    try {
+      tx.objectStore(STORES.notes).put({
+        ...note,
+        createdAt: new Date(note.createdAt),
+        updatedAt: new Date(note.updatedAt),
+      });
+    } catch (error) {
+      console.error('Skipping a legacy note that could not be imported:', error);
+      skippedNotes++;
+    }
+  }
+  tx.objectStore(STORES.meta).put({ key: 'legacyImport', importedAt: new Date() });
+  legacyKeysImported = [
+    ...(conversations && skippedConversations === 0 ? [LEGACY_CONVERSATIONS_KEY] : []),
+    ...(notes && skippedNotes === 0 ? [LEGACY_NOTES_KEY] : []),
+  ];
+  legacySkippedCount = skippedConversations + skippedNotes;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (const migration of migrations) {
+        if (migration.version > event.oldVersion) migration.migrate(db, tx);
+      }
+    };
+
+    request.onsuccess = () => {
+      // Only drop the legacy copy once the upgrade transaction has committed
+      legacyKeysImported.forEach(key => localStorage.removeItem(key));
+      legacyKeysImported = [];
+      request.result.onversionchange = () => {
+        request.result.close();
+        // The next call opens the database again instead of reusing the closed connection
+        dbPromise = null;
+      };
+      resolve(request.result);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('The database is open in another tab with an older version. Close other tabs and reload.'));
+  });
+  dbPromise.catch(() => { dbPromise = null; });
+
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
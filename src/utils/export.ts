@@ -0,0 +1,214 @@
+import { Marked } from 'marked';
+import { Conversation, Folder, LibraryItemKind, ModelId, Note } from '../types';
+import { getActivePath } from './messageTree';
+
+export type ExportFormat = 'markdown' | 'html' | 'print' | 'json';
+
+export const exportFormats: { format: ExportFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown (.md)' },
+  { format: 'html', label: 'Web page (.html)' },
+  { format: 'print', label: 'Print / Save as PDF' },
+  { format: 'json', label: 'JSON (.json)' },
+];
+
+export const EXPORT_FORMAT_ID = 'ai-tutor-export';
+export const EXPORT_VERSION = 1;
+
+/**
+ * Schema of the JSON export, version 1. Dates are ISO 8601 strings.
+ *
+ * {
+ *   "format": "ai-tutor-export",        // Always this value
+ *   "version": 1,                       // Bumped on breaking changes
+ *   "exportedAt": "2024-05-01T12:00:00.000Z",
+ *   "conversations": [{                 // Present when chats were exported
+ *     "id", "title", "createdAt", "updatedAt",
+ *     "messages": [{ "id", "role": "user" | "assistant", "content", "timestamp",
+ *                    "parentId"?: string | null, "model"? }],
+ *     "activeLeafId"?, "isPinned"?, "tutorMode"?, "model"?, "folderId"?, "tags"?: string[]
+ *   }],
+ *   "notes": [{                         // Present when notes were exported
+ *     "id", "title", "content" (Markdown), "createdAt", "updatedAt",
+ *     "sourceConversationId"?, "sourceMessageId"?, "folderId"?, "tags"?: string[]
+ *   }],
+ *   "folders": [{ "id", "name", "createdAt" }]  // Only folders the items are in
+ * }
+ *
+ * Messages form a tree through parentId: siblings are alternate versions of a
+ * reply, and activeLeafId marks the last message of the branch being shown.
+ */
+export interface ExportFile {
+  format: typeof EXPORT_FORMAT_ID;
+  version: number;
+  exportedAt: string;
+  conversations?: Conversation[];
+  notes?: Note[];
+  folders: Folder[];
+}
+
+export interface ExportOptions {
+  folders?: Folder[];
+  modelName?: (id: ModelId) => string | undefined;
+}
+
+type LibraryItems = { kind: 'conversation'; items: Conversation[] } | { kind: 'note'; items: Note[] };
+
+const formatTimestamp = (date: Date) => new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(date));
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '').slice(0, 60) || 'export';
+
+export function conversationToMarkdown(conversation: Conversation, { modelName }: ExportOptions = {}): string {
+  const messages = getActivePath(conversation).map(message => {
+    const model = message.model && (modelName?.(message.model) ?? message.model);
+    const author = message.role === 'user' ? 'You' : `AI Tutor${model ? ` (${model})` : ''}`;
+    return `### ${author} · ${formatTimestamp(message.timestamp)}\n\n${message.content.trim()}`;
+  });
+  return `# ${conversation.title}\n\n_Started ${formatTimestamp(conversation.createdAt)}_\n\n${messages.join('\n\n')}\n`;
+}
+
+export function noteToMarkdown(note: Note): string {
+  const tags = note.tags?.length ? ` · ${note.tags.map(t => `#${t}`).join(' ')}` : '';
+  return `# ${note.title}\n\n_Updated ${formatTimestamp(note.updatedAt)}${tags}_\n\n${note.content.trim()}\n`;
+}
+
+// One Markdown document per chat or note
+function toSections(library: LibraryItems, options: ExportOptions): string[] {
+  return library.kind === 'conversation'
+    ? library.items.map(c => conversationToMarkdown(c, options))
+    : library.items.map(noteToMarkdown);
+}
+
+// Math is cut out before Markdown parsing, which would eat its backslashes, and put back for KaTeX
+const MATH_PATTERN = /\$\$[\s\S]+?\$\$|\\\[[\s\S]+?\\\]|\\\([\s\S]+?\\\)|\$(?!\s)[^$\n]+?(?<!\s)\$/g;
+
+const UNSAFE_URL = /^\s*(javascript|vbscript|data):/i;
+
+// Replies and imported chats are untrusted: raw HTML is shown as text and script links are dropped
+const exportMarked = new Marked({
+  gfm: true,
+  async: false,
+  useNewRenderer: true,
+  renderer: { html: ({ text }) => escapeHtml(text) },
+  walkTokens: token => {
+    if ((token.type === 'link' || token.type === 'image') && UNSAFE_URL.test(token.href)) token.href = '#';
+  },
+});
+
+function markdownToHtml(markdown: string): string {
+  const math: string[] = [];
+  const protectedMarkdown = markdown.replace(MATH_PATTERN, match => `%%MATH${math.push(match) - 1}%%`);
+  const html = exportMarked.parse(protectedMarkdown) as string;
+  return html.replace(/%%MATH(\d+)%%/g, (_, i) => escapeHtml(math[Number(i)]));
+}
+
+const CDN = 'https://cdn.jsdelivr.net/npm';
+
+// A standalone page; code highlighting and math rendering load from a CDN when opened
+function toHtmlDocument(title: string, library: LibraryItems, options: ExportOptions, autoPrint: boolean): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" href="${CDN}/katex@0.16.11/dist/katex.min.css">
+<link rel="stylesheet" href="${CDN}/@highlightjs/cdn-assets@11.9.0/styles/github.min.css">
+<style>
+  body { font: 16px/1.6 system-ui, -apple-system, "Segoe UI", sans-serif; color: #1f2937; max-width: 48rem; margin: 2rem auto; padding: 0 1.25rem; }
+  h1 { font-size: 1.75rem; border-bottom: 1px solid #e5e7eb; padding-bottom: .5rem; }
+  h3 { font-size: .95rem; color: #4b5563; margin-top: 2rem; }
+  pre { background: #f6f8fa; border-radius: 6px; padding: 1rem; overflow-x: auto; }
+  code { font: .9em ui-monospace, SFMono-Regular, Menlo, monospace; }
+  :not(pre) > code { background: #f3f4f6; padding: .1em .35em; border-radius: 4px; }
+  table { border-collapse: collapse; } th, td { border: 1px solid #d1d5db; padding: .35rem .6rem; }
+  blockquote { border-left: 3px solid #d1d5db; margin-left: 0; padding-left: 1rem; color: #4b5563; }
+  section + section { margin-top: 3rem; }
+  @media print {
+    body { margin: 0; max-width: none; font-size: 12pt; }
+    section + section { break-before: page; margin-top: 0; }
+    pre, blockquote, table { break-inside: avoid; }
+    h1, h3 { break-after: avoid; }
+  }
+</style>
+</head>
+<body>
+${toSections(library, options).map(markdown => `<section>\n${markdownToHtml(markdown)}</section>`).join('\n')}
+<script src="${CDN}/@highlightjs/cdn-assets@11.9.0/highlight.min.js"></script>
+<script src="${CDN}/katex@0.16.11/dist/katex.min.js"></script>
+<script src="${CDN}/katex@0.16.11/dist/contrib/auto-render.min.js"></script>
+<script>
+  window.addEventListener('load', function () {
+    if (window.hljs) hljs.highlightAll();
+    if (window.renderMathInElement) renderMathInElement(document.body, {
+      delimiters: [
+        { left: '$$', right: '$$', display: true },
+        { left: '\\\\[', right: '\\\\]', display: true },
+        { left: '\\\\(', right: '\\\\)', display: false },
+        { left: '$', right: '$', display: false }
+      ],
+      throwOnError: false
+    });${autoPrint ? '\n    setTimeout(function () { window.print(); }, 300);' : ''}
+  });
+</script>
+</body>
+</html>
+`;
+}
+
+function toJson(library: LibraryItems, { folders = [] }: ExportOptions): string {
+  const folderIds = new Set(library.items.map(item => item.folderId));
+  const file: ExportFile = {
+    format: EXPORT_FORMAT_ID,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...(library.kind === 'conversation' ? { conversations: library.items } : { notes: library.items }),
+    folders: folders.filter(f => folderIds.has(f.id)),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export interface ExportedFile {
+  content: string;
+  filename: string;
+  type: string;
+}
+
+// Builds the file for every format except 'print', which is opened with openPrintView
+export function exportLibraryItems(kind: LibraryItemKind, items: Conversation[] | Note[], format: Exclude<ExportFormat, 'print'>, options: ExportOptions = {}): ExportedFile {
+  const library = { kind, items } as LibraryItems;
+  const base = items.length === 1
+    ? slugify(items[0].title)
+    : `ai-tutor-${kind === 'conversation' ? 'chats' : 'notes'}-${new Date().toISOString().split('T')[0]}`;
+  const title = items.length === 1 ? items[0].title : `AI Tutor ${kind === 'conversation' ? 'chats' : 'notes'}`;
+
+  switch (format) {
+    case 'markdown':
+      return { content: toSections(library, options).join('\n---\n\n'), filename: `${base}.md`, type: 'text/markdown;charset=utf-8' };
+    case 'html':
+      return { content: toHtmlDocument(title, library, options, false), filename: `${base}.html`, type: 'text/html;charset=utf-8' };
+    case 'json':
+      return { content: toJson(library, options), filename: `${base}.json`, type: 'application/json' };
+  }
+}
+
+// Opens the items in a new tab laid out for paper, then brings up the print dialog.
+// The page runs in a sandboxed frame with an opaque origin, so it cannot reach this app's storage.
+export function openPrintView(kind: LibraryItemKind, items: Conversation[] | Note[], options: ExportOptions = {}): boolean {
+  const title = items.length === 1 ? items[0].title : `AI Tutor ${kind === 'conversation' ? 'chats' : 'notes'}`;
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+  printWindow.opener = null;
+
+  const { document } = printWindow;
+  document.title = title;
+  document.body.style.margin = '0';
+  const frame = document.createElement('iframe');
+  frame.setAttribute('sandbox', 'allow-scripts allow-modals');
+  frame.style.cssText = 'border: 0; width: 100vw; height: 100vh; display: block;';
+  frame.srcdoc = toHtmlDocument(title, { kind, items } as LibraryItems, options, true);
+  document.body.append(frame);
+  return true;
+}
@@ -17,4 +17,18 @@ export function formatDate(date: Date): string {
     hour: '2-digit',
     minute: '2-digit',
   }).format(date);
-}
\ No newline at end of file
+}
+
+export function downloadFile(content: string, filename: string, type = 'application/json'): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// Trimmed, lowercased and without a leading #, so "#Exam" and "exam " are one tag
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').replace(/\s+/g, '-').toLowerCase();
+}
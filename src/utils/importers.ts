@@ -0,0 +1,332 @@
+import { Conversation, Message } from '../types';
+import { importedModelId } from '../services/providers';
+import { BackupError, ParsedBackup, parseBackup } from './backup';
+import { generateConversationTitle } from './helpers';
+
+// Chats exported from other apps are turned into conversations and handed to the
+// backup import pipeline, so they get the same preview, merge and undo.
+
+type Role = Message['role'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Accepts Unix seconds (as ChatGPT and the OpenAI API use), milliseconds or ISO strings
+function fromTimestamp(value: unknown): Date | undefined {
+  if (typeof value !== 'number' && typeof value !== 'string') return undefined;
+  const date = typeof value === 'number' ? new Date(value < 1e12 ? value * 1000 : value) : new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+// cyrb53, a fast 53-bit string hash; not for security
+function hashText(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+// Ids derived from each chat's text, so importing the same file again merges
+// instead of duplicating. Identical chats in one file are told apart by their order.
+function importedChatIds(sources: string[]): string[] {
+  const seen = new Map<string, number>();
+  return sources.map(source => {
+    const hash = hashText(source);
+    const count = seen.get(hash) ?? 0;
+    seen.set(hash, count + 1);
+    return `import-${hash}${count > 0 ? `-${count}` : ''}`;
+  });
+}
+
+function toImportResult(conversations: Conversation[], source: string, skipped: string[]): ParsedBackup {
+  if (conversations.length === 0) {
+    throw new BackupError(skipped.length > 0 ? `No chats could be imported: ${skipped[0]}.` : 'The file contains no chats.');
+  }
+  return {
+    data: { conversations, notes: [], folders: [], quizzes: [], decks: [], flashcards: [] },
+    version: 0,
+    source,
+    skipped,
+  };
+}
+
+// --- CHATGPT ---
+// conversations.json from ChatGPT's data export: every chat is a tree of nodes in
+// `mapping`, and `current_node` is the tip of the branch that was last shown.
+
+interface ChatGptNode {
+  id?: string;
+  parent?: string | null;
+  children?: string[];
+  message?: {
+    id?: string;
+    author?: { role?: string };
+    content?: { content_type?: string; parts?: unknown[] };
+    create_time?: number | null;
+    recipient?: string;
+    metadata?: { model_slug?: string; is_visually_hidden_from_conversation?: boolean };
+  } | null;
+}
+
+const isChatGptExport = (raw: unknown): raw is unknown[] =>
+  Array.isArray(raw) && raw.length > 0 && raw.every(item => isObject(item) && isObject(item.mapping));
+
+// Only visible text turns; system prompts, tool calls and custom instructions are left out
+function chatGptText(message: NonNullable<ChatGptNode['message']>): string {
+  const { content, recipient, metadata } = message;
+  if (metadata?.is_visually_hidden_from_conversation || (recipient && recipient !== 'all')) return '';
+  if (content?.content_type !== 'text' && content?.content_type !== 'multimodal_text') return '';
+  return (content.parts ?? [])
+    .map(part => (typeof part === 'string' ? part : '_[Attachment not imported]_'))
+    .join('\n\n')
+    .trim();
+}
+
+function fromChatGptConversation(raw: Record<string, unknown>): Conversation | null {
+  const mapping = raw.mapping as Record<string, ChatGptNode>;
+  const createdAt = fromTimestamp(raw.create_time) ?? new Date();
+  const messages: Message[] = [];
+  const keptIds = new Set<string>();
+
+  // Depth-first from the roots, so parents come before their replies and edits stay siblings.
+  // Skipped nodes hand their parent on to their children.
+  const roots = Object.keys(mapping).filter(id => !mapping[id].parent || !mapping[mapping[id].parent as string]);
+  const stack: [string, string | null][] = roots.reverse().map(id => [id, null]);
+  while (stack.length > 0) {
+    const [nodeId, parentId] = stack.pop()!;
+    const node = mapping[nodeId];
+    if (!node) continue;
+    const role = node.message?.author?.role;
+    const content = node.message && (role === 'user' || role === 'assistant') ? chatGptText(node.message) : '';
+
+    let childParentId = parentId;
+    if (node.message && content) {
+      const previous = messages[messages.length - 1];
+      messages.push({
+        id: nodeId,
+        role: role as Role,
+        content,
+        timestamp: fromTimestamp(node.message.create_time) ?? previous?.timestamp ?? createdAt,
+        parentId,
+        ...(role === 'assistant' ? { model: importedModelId(node.message.metadata?.model_slug || 'ChatGPT') } : {}),
+      });
+      keptIds.add(nodeId);
+      childParentId = nodeId;
+    }
+    [...(node.children ?? [])].reverse().forEach(childId => stack.push([childId, childParentId]));
+  }
+  if (messages.length === 0) return null;
+
+  let leafId = typeof raw.current_node === 'string' ? raw.current_node : undefined;
+  while (leafId && !keptIds.has(leafId)) leafId = mapping[leafId]?.parent ?? undefined;
+
+  return {
+    id: typeof raw.id === 'string' ? raw.id : typeof raw.conversation_id === 'string' ? raw.conversation_id : `import-${hashText(JSON.stringify(raw))}`,
+    title: typeof raw.title === 'string' && raw.title.trim() ? raw.title.trim() : 'Imported chat',
+    messages,
+    createdAt,
+    updatedAt: fromTimestamp(raw.update_time) ?? messages[messages.length - 1].timestamp,
+    ...(leafId ? { activeLeafId: leafId } : {}),
+  };
+}
+
+function importChatGpt(raw: unknown[]): ParsedBackup {
+  const conversations: Conversation[] = [];
+  const skipped: string[] = [];
+  raw.forEach((item, index) => {
+    const conversation = fromChatGptConversation(item as Record<string, unknown>);
+    if (conversation) conversations.push(conversation);
+    else skipped.push(`Chat ${index + 1} has no messages that could be imported`);
+  });
+  return toImportResult(conversations, 'ChatGPT export', skipped);
+}
+
+// --- OPENAI MESSAGES ---
+// A `messages` array as sent to the Chat Completions API, on its own, wrapped in
+// an object with `messages`, or a list of such objects.
+
+const isMessageList = (value: unknown): value is Record<string, unknown>[] =>
+  Array.isArray(value) && value.length > 0 && value.every(item => isObject(item) && typeof item.role === 'string');
+
+function isOpenAiExport(raw: unknown): boolean {
+  if (isMessageList(raw) || (isObject(raw) && isMessageList(raw.messages))) return true;
+  return Array.isArray(raw) && raw.length > 0 && raw.every(item => isObject(item) && isMessageList(item.messages));
+}
+
+function openAiText(content: unknown): string {
+  if (typeof content === 'string') return content.trim();
+  if (!Array.isArray(content)) return '';
+  return content
+    .map(part => (isObject(part) && typeof part.text === 'string' ? part.text : '_[Attachment not imported]_'))
+    .join('\n\n')
+    .trim();
+}
+
+function fromOpenAiMessages(id: string, rawMessages: Record<string, unknown>[], details: Record<string, unknown>, fallbackDate: Date): Conversation | null {
+  const createdAt = fromTimestamp(details.created ?? details.created_at ?? details.create_time) ?? fallbackDate;
+  const messages: Message[] = [];
+  for (const raw of rawMessages) {
+    // System and developer prompts and tool results are not part of the visible chat
+    if (raw.role !== 'user' && raw.role !== 'assistant') continue;
+    const content = openAiText(raw.content);
+    if (!content) continue;
+    const previous = messages[messages.length - 1];
+    const model = typeof raw.model === 'string' ? raw.model : typeof details.model === 'string' ? details.model : 'Assistant';
+    messages.push({
+      id: `${id}-${messages.length}`,
+      role: raw.role,
+      content,
+      timestamp: fromTimestamp(raw.timestamp ?? raw.created_at ?? raw.created) ?? previous?.timestamp ?? createdAt,
+      parentId: previous?.id ?? null,
+      ...(raw.role === 'assistant' ? { model: importedModelId(model) } : {}),
+    });
+  }
+  if (messages.length === 0) return null;
+
+  const firstQuestion = messages.find(m => m.role === 'user')?.content ?? messages[0].content;
+  return {
+    id,
+    title: typeof details.title === 'string' && details.title.trim() ? details.title.trim() : generateConversationTitle(firstQuestion),
+    messages,
+    createdAt,
+    updatedAt: messages[messages.length - 1].timestamp,
+  };
+}
+
+function importOpenAi(raw: unknown, fallbackDate: Date): ParsedBackup {
+  const chats: Record<string, unknown>[] = isMessageList(raw) ? [{ messages: raw }] : Array.isArray(raw) ? raw : [raw as Record<string, unknown>];
+  const conversations: Conversation[] = [];
+  const skipped: string[] = [];
+  const ids = importedChatIds(chats.map(chat => JSON.stringify(chat)));
+  chats.forEach((chat, index) => {
+    const conversation = fromOpenAiMessages(ids[index], chat.messages as Record<string, unknown>[], chat, fallbackDate);
+    if (conversation) conversations.push(conversation);
+    else skipped.push(`Chat ${index + 1} has no user or assistant messages`);
+  });
+  return toImportResult(conversations, 'OpenAI messages', skipped);
+}
+
+// --- MARKDOWN ---
+// Transcripts where each turn starts with a speaker line, such as "## User",
+// "**Assistant:**" or this app's own "### AI Tutor (Gemini) · May 1, 2024, 3:00 PM".
+
+const USER_NAMES = ['user', 'you', 'me', 'human', 'student'];
+const ASSISTANT_NAMES = ['assistant', 'ai', 'ai tutor', 'tutor', 'bot', 'chatgpt', 'gpt', 'claude', 'gemini', 'mistral', 'copilot'];
+
+// A heading names the speaker on its own line; bold and "Name:" labels may be followed by the first line of the turn
+const SPEAKER_PATTERNS = [/^#{2,6}\s+(.+?)\s*:?\s*$/, /^\*\*(.+?):?\*\*:?\s*(.*)$/, /^([A-Za-z][\w ]{0,20}):\s*(.*)$/];
+
+interface Speaker {
+  role: Role;
+  model?: string;
+  timestamp?: Date;
+  firstLine: string;
+}
+
+function readSpeaker(line: string): Speaker | null {
+  const match = SPEAKER_PATTERNS.map(pattern => line.trim().match(pattern)).find(Boolean);
+  if (!match) return null;
+  const [label, time] = match[1].split(/\s+·\s+/);
+  // "AI Tutor (Gemini)" names the model in parentheses; a re-imported "(gpt-4o (imported))" keeps its name
+  const nameMatch = label.match(/^(.+?)\s*\((.+)\)$/);
+  const name = (nameMatch ? nameMatch[1] : label).trim();
+  const lowered = name.toLowerCase();
+  const role = USER_NAMES.includes(lowered) ? 'user' : ASSISTANT_NAMES.includes(lowered) ? 'assistant' : null;
+  if (!role) return null;
+  return {
+    role,
+    model: nameMatch ? nameMatch[2].replace(/\s*\(imported\)$/, '') : name,
+    timestamp: time ? fromTimestamp(time) : undefined,
+    firstLine: match[2] ?? '',
+  };
+}
+
+function fromMarkdownTranscript(id: string, markdown: string, fallbackTitle: string, fallbackDate: Date): Conversation | null {
+  let title = fallbackTitle;
+  let createdAt: Date | undefined;
+  const messages: Message[] = [];
+  let current: { speaker: Speaker; lines: string[] } | null = null;
+  let inCodeBlock = false;
+
+  const flush = () => {
+    const content = current?.lines.join('\n').trim();
+    if (!current || !content) return;
+    const previous = messages[messages.length - 1];
+    const { role, model, timestamp } = current.speaker;
+    messages.push({
+      id: `${id}-${messages.length}`,
+      role,
+      content,
+      timestamp: timestamp ?? previous?.timestamp ?? createdAt ?? fallbackDate,
+      parentId: previous?.id ?? null,
+      ...(role === 'assistant' ? { model: importedModelId(model || 'Assistant') } : {}),
+    });
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) inCodeBlock = !inCodeBlock;
+    const speaker = inCodeBlock ? null : readSpeaker(line);
+    if (speaker) {
+      flush();
+      current = { speaker, lines: [speaker.firstLine] };
+    } else if (current) {
+      current.lines.push(line);
+    } else if (/^#\s+/.test(line)) {
+      title = line.replace(/^#\s+/, '').trim() || title;
+    } else {
+      // Text before the first turn, such as "_Started May 1, 2024_"
+      const started = line.match(/^_?(?:Started|Date|Created):?\s+(.+?)_?$/i);
+      if (started) createdAt = fromTimestamp(started[1]) ?? createdAt;
+    }
+  }
+  flush();
+  if (messages.length === 0) return null;
+
+  return {
+    id,
+    title,
+    messages,
+    createdAt: createdAt ?? messages[0].timestamp,
+    updatedAt: messages[messages.length - 1].timestamp,
+  };
+}
+
+function importMarkdown(text: string, fileName: string, fallbackDate: Date): ParsedBackup {
+  const fallbackTitle = fileName.replace(/\.[^.]+$/, '') || 'Imported chat';
+  // Several chats in one file, as the Markdown export writes them, are divided by a rule before each title
+  const transcripts = text.split(/\n---\s*\n(?=\s*#\s)/);
+  const conversations: Conversation[] = [];
+  const skipped: string[] = [];
+  const ids = importedChatIds(transcripts.map(transcript => transcript.trim()));
+  transcripts.forEach((transcript, index) => {
+    const conversation = fromMarkdownTranscript(ids[index], transcript, fallbackTitle, fallbackDate);
+    if (conversation) conversations.push(conversation);
+    else skipped.push(`${transcripts.length > 1 ? `Transcript ${index + 1}` : 'The file'} has no lines naming who is speaking, such as "## User" or "**Assistant:**"`);
+  });
+  return toImportResult(conversations, 'Markdown transcript', skipped);
+}
+
+// --- ENTRY POINT ---
+
+export const IMPORT_FILE_TYPES = '.json,.md,.markdown,.txt';
+
+// Detects the kind of file and reads it into the shape the backup import works with
+export function parseImportFile(text: string, fileName: string, modifiedAt = new Date()): ParsedBackup {
+  if (/\.(md|markdown|txt)$/i.test(fileName)) return importMarkdown(text, fileName, modifiedAt);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BackupError('The file is not valid JSON.');
+  }
+  if (isChatGptExport(raw)) return importChatGpt(raw);
+  if (isOpenAiExport(raw)) return importOpenAi(raw, modifiedAt);
+  return parseBackup(text);
+}
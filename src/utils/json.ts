@@ -0,0 +1,76 @@
+// Model output often wraps JSON in prose or code fences, or leaves trailing
+// commas behind; these helpers dig the first parseable value out of it.
+
+const FENCE_PATTERN = /```(?:json|JSON)?\s*\n?([\s\S]*?)```/;
+
+// End index (exclusive) of the object or array opening at `start`, or -1 when it never closes
+function findBalancedEnd(text: string, start: number): number {
+  const closers: string[] = [];
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{') closers.push('}');
+    else if (char === '[') closers.push(']');
+    else if (char === '}' || char === ']') {
+      if (closers.pop() !== char) return -1;
+      if (closers.length === 0) return i + 1;
+    }
+  }
+  return -1;
+}
+
+// Drops commas directly before a closing brace or bracket, leaving strings alone
+function removeTrailingCommas(json: string): string {
+  let result = '';
+  let inString = false;
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+    if (inString) {
+      result += char;
+      if (char === '\\') result += json[++i] ?? '';
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    if (char === ',' && /^\s*[}\]]/.test(json.slice(i + 1))) continue;
+    result += char;
+  }
+  return result;
+}
+
+function tryParse(candidate: string): { value: unknown } | null {
+  for (const text of [candidate, removeTrailingCommas(candidate)]) {
+    try {
+      return { value: JSON.parse(text) };
+    } catch {
+      // Try the repaired text next
+    }
+  }
+  return null;
+}
+
+// Parses the first JSON object or array found in `text`
+export function extractJson(text: string): unknown {
+  const fenced = text.match(FENCE_PATTERN)?.[1];
+  for (const source of fenced ? [fenced, text] : [text]) {
+    const whole = tryParse(source.trim());
+    if (whole) return whole.value;
+
+    for (let start = source.search(/[{[]/); start !== -1; ) {
+      const end = findBalancedEnd(source, start);
+      if (end !== -1) {
+        const parsed = tryParse(source.slice(start, end));
+        if (parsed) return parsed.value;
+      }
+      const next = source.slice(start + 1).search(/[{[]/);
+      start = next === -1 ? -1 : start + 1 + next;
+    }
+  }
+  throw new SyntaxError('No valid JSON found in the response.');
+}
@@ -0,0 +1,56 @@
+import { Conversation, Message } from '../types';
+
+// Conversations store every message of every branch in `messages`, in the
+// order they were created. `parentId` links a message to the one it answers
+// or follows, and `activeLeafId` selects which branch is shown and sent.
+
+// Older data has no parentId: treat the flat list as a single branch
+export function linkLegacyMessages<T extends Message>(messages: T[]): T[] {
+  return messages.map((msg, index) =>
+    msg.parentId === undefined ? { ...msg, parentId: index > 0 ? messages[index - 1].id : null } : msg
+  );
+}
+
+export function getActivePath(conversation: Conversation): Message[] {
+  const { messages } = conversation;
+  if (messages.length === 0) return [];
+
+  const byId = new Map(messages.map(m => [m.id, m]));
+  let current: Message | undefined = (conversation.activeLeafId && byId.get(conversation.activeLeafId)) || messages[messages.length - 1];
+  const path: Message[] = [];
+  while (current) {
+    path.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path.reverse();
+}
+
+export function getActiveLeafId(conversation: Conversation): string | null {
+  const path = getActivePath(conversation);
+  return path.length > 0 ? path[path.length - 1].id : null;
+}
+
+export function getSiblings(conversation: Conversation, message: Message): Message[] {
+  const parentId = message.parentId ?? null;
+  return conversation.messages.filter(m => (m.parentId ?? null) === parentId);
+}
+
+// Follows the most recently created child down to a leaf
+export function getLatestLeafId(conversation: Conversation, messageId: string): string {
+  let leafId = messageId;
+  for (;;) {
+    const children = conversation.messages.filter(m => m.parentId === leafId);
+    if (children.length === 0) return leafId;
+    leafId = children[children.length - 1].id;
+  }
+}
+
+// Adds a message and makes it the tip of the active branch
+export function appendMessage(conversation: Conversation, message: Message): Conversation {
+  return {
+    ...conversation,
+    messages: [...conversation.messages, message],
+    activeLeafId: message.id,
+    updatedAt: new Date(),
+  };
+}
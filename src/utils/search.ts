@@ -0,0 +1,182 @@
+import { Conversation, Note } from '../types';
+
+// An in-memory inverted index over every message (on every branch) and note.
+// Query terms match whole words or word prefixes; every term has to match.
+
+export interface SearchDocument {
+  kind: 'message' | 'note';
+  id: string; // Message or note id
+  conversationId?: string;
+  title: string; // Conversation or note title
+  text: string;
+  role?: 'user' | 'assistant';
+  date: Date;
+}
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  snippet: SnippetPart[];
+}
+
+export interface SearchIndex {
+  documents: SearchDocument[];
+  postings: Map<string, Map<number, number>>; // term -> document index -> weighted count
+  terms: string[]; // Sorted, for prefix lookups
+}
+
+const TITLE_WEIGHT = 3;
+const PREFIX_PENALTY = 0.5;
+const SNIPPET_LENGTH = 140;
+
+const foldText = (text: string) => text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+
+// Lowercased words with accents stripped, so "théorème" matches "theoreme"
+export function tokenize(text: string): string[] {
+  return foldText(text).match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function addTokens(counts: Map<string, number>, tokens: string[], weight: number) {
+  tokens.forEach(token => counts.set(token, (counts.get(token) ?? 0) + weight));
+}
+
+export function buildSearchIndex(conversations: Conversation[], notes: Note[]): SearchIndex {
+  const documents: SearchDocument[] = [
+    ...conversations.flatMap(conv => conv.messages
+      .filter(m => m.content.trim())
+      .map((m): SearchDocument => ({
+        kind: 'message',
+        id: m.id,
+        conversationId: conv.id,
+        title: conv.title,
+        text: m.content,
+        role: m.role,
+        date: new Date(m.timestamp),
+      }))),
+    ...notes.map((note): SearchDocument => ({
+      kind: 'note',
+      id: note.id,
+      title: note.title,
+      text: note.content,
+      date: new Date(note.updatedAt),
+    })),
+  ];
+
+  const postings = new Map<string, Map<number, number>>();
+  documents.forEach((doc, index) => {
+    const counts = new Map<string, number>();
+    addTokens(counts, tokenize(doc.text), 1);
+    // Chat titles are matched by the sidebar list itself, so only note titles are indexed
+    if (doc.kind === 'note') addTokens(counts, tokenize(doc.title), TITLE_WEIGHT);
+    counts.forEach((count, term) => {
+      const list = postings.get(term) ?? new Map<number, number>();
+      list.set(index, count);
+      postings.set(term, list);
+    });
+  });
+
+  return { documents, postings, terms: Array.from(postings.keys()).sort() };
+}
+
+// Index terms that start with `prefix`, found by binary search over the sorted list
+function termsWithPrefix(terms: string[], prefix: string): string[] {
+  let low = 0;
+  let high = terms.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (terms[mid] < prefix) low = mid + 1;
+    else high = mid;
+  }
+  const matches: string[] = [];
+  for (let i = low; i < terms.length && terms[i].startsWith(prefix); i++) matches.push(terms[i]);
+  return matches;
+}
+
+// Strips the markdown that would clutter a one-line preview
+function plainText(text: string): string {
+  return text.replace(/```[\w-]*\n?/g, '').replace(/[*_`#>|]+/g, '').replace(/\s+/g, ' ').trim();
+}
+
+// Folds `text` the way tokenize does, keeping the offset in `text` of every folded
+// character (and of the end), so matches in the folded text map back to the original
+function foldWithOffsets(text: string): { folded: string; offsets: number[] } {
+  let folded = '';
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const char of text) {
+    const foldedChar = foldText(char);
+    for (let i = 0; i < foldedChar.length; i++) offsets.push(offset);
+    folded += foldedChar;
+    offset += char.length;
+  }
+  offsets.push(offset);
+  return { folded, offsets };
+}
+
+// Query terms are already folded, so "cafe" highlights "Café"
+export function buildSnippet(text: string, queryTerms: string[]): SnippetPart[] {
+  const plain = plainText(text);
+  const escaped = queryTerms.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${escaped.join('|')})[\\p{L}\\p{N}]*`, 'gu');
+
+  const foldedPlain = foldWithOffsets(plain);
+  const firstMatch = escaped.length > 0 ? foldedPlain.folded.search(pattern) : -1;
+  const first = firstMatch >= 0 ? foldedPlain.offsets[firstMatch] : -1;
+  let start = Math.max(0, first - 40);
+  if (start > 0) start = plain.indexOf(' ', start) + 1 || start;
+  const window = plain.slice(start, start + SNIPPET_LENGTH);
+
+  const parts: SnippetPart[] = start > 0 ? [{ text: '…', highlight: false }] : [];
+  let last = 0;
+  if (escaped.length > 0) {
+    const { folded, offsets } = foldWithOffsets(window);
+    for (const match of folded.matchAll(pattern)) {
+      const from = offsets[match.index!];
+      const to = offsets[match.index! + match[0].length];
+      if (from > last) parts.push({ text: window.slice(last, from), highlight: false });
+      parts.push({ text: window.slice(from, to), highlight: true });
+      last = to;
+    }
+  }
+  if (last < window.length) parts.push({ text: window.slice(last), highlight: false });
+  if (start + SNIPPET_LENGTH < plain.length) parts.push({ text: '…', highlight: false });
+  return parts;
+}
+
+// Ranked with TF-IDF; exact words outrank prefix matches and note titles outrank body text
+export function searchIndex(index: SearchIndex, query: string, limit = 50): SearchResult[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0) return [];
+
+  let scores = new Map<number, number>();
+  for (const [i, queryTerm] of queryTerms.entries()) {
+    const termScores = new Map<number, number>();
+    for (const term of termsWithPrefix(index.terms, queryTerm)) {
+      const list = index.postings.get(term)!;
+      const idf = Math.log(1 + index.documents.length / list.size);
+      const weight = term === queryTerm ? 1 : PREFIX_PENALTY;
+      list.forEach((count, docIndex) => {
+        const score = (1 + Math.log(count)) * idf * weight;
+        termScores.set(docIndex, Math.max(termScores.get(docIndex) ?? 0, score));
+      });
+    }
+    const previous = scores;
+    scores = i === 0
+      ? termScores
+      : new Map(Array.from(termScores).filter(([docIndex]) => previous.has(docIndex)).map(([docIndex, score]) => [docIndex, score + previous.get(docIndex)!]));
+    if (scores.size === 0) return [];
+  }
+
+  return Array.from(scores)
+    .sort((a, b) => b[1] - a[1] || index.documents[b[0]].date.getTime() - index.documents[a[0]].date.getTime())
+    .slice(0, limit)
+    .map(([docIndex, score]) => {
+      const document = index.documents[docIndex];
+      return { document, score, snippet: buildSnippet(document.text, queryTerms) };
+    });
+}
@@ -0,0 +1,64 @@
+import { Flashcard, ReviewGrade } from '../types';
+import { generateId } from './helpers';
+
+// SM-2 scheduling (SuperMemo 2): a card's interval grows by its ease factor
+// after every successful review, and the ease factor drifts with each grade.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// A lapsed card comes back later in the same session
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+// SM-2 quality (0-5) for each answer button
+const gradeQuality: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export function createFlashcard(
+  fields: Pick<Flashcard, 'deckId' | 'front' | 'back' | 'sourceConversationId' | 'sourceNoteId'>,
+  now = new Date()
+): Flashcard {
+  return {
+    ...fields,
+    id: generateId(),
+    easeFactor: INITIAL_EASE,
+    interval: 0,
+    repetitions: 0,
+    dueDate: now,
+    createdAt: now,
+  };
+}
+
+export function scheduleReview(card: Flashcard, grade: ReviewGrade, now = new Date()): Flashcard {
+  const quality = gradeQuality[grade];
+  const easeFactor = Math.max(MIN_EASE, card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  if (quality < 3) {
+    return { ...card, easeFactor, interval: 0, repetitions: 0, dueDate: new Date(now.getTime() + RELEARN_DELAY_MS), lastReviewedAt: now };
+  }
+
+  const repetitions = card.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * easeFactor);
+  return { ...card, easeFactor, interval, repetitions, dueDate: new Date(now.getTime() + interval * DAY_MS), lastReviewedAt: now };
+}
+
+// Due any time today counts, so a daily review clears the whole day at once
+export function isDue(card: Flashcard, now = new Date()): boolean {
+  const endOfDay = new Date(now);
+  endOfDay.setHours(23, 59, 59, 999);
+  return new Date(card.dueDate).getTime() <= endOfDay.getTime();
+}
+
+// Shown on the answer buttons, e.g. "10m" or "6d"
+export function previewInterval(card: Flashcard, grade: ReviewGrade, now = new Date()): string {
+  const ms = scheduleReview(card, grade, now).dueDate.getTime() - now.getTime();
+  const days = Math.round(ms / DAY_MS);
+  if (days < 1) return `${Math.max(1, Math.round(ms / 60000))}m`;
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+}
@@ -1,45 +1,238 @@
-import { Conversation, APISettings, Note } from '../types';
+import { Conversation, APISettings, Flashcard, FlashcardDeck, Folder, Message, Note, StudySession } from '../types';
+import { DEFAULT_MODEL_ID, withoutApiKeys } from '../services/providers';
+import { DEFAULT_QUIZ_OPTIONS, withQuestionType } from '../services/quiz';
+import { ConversationRecord, MessageRecord, STORES, openDatabase, requestToPromise, takeSkippedLegacyCount, transactionDone } from './db';
+import { EncryptedPayload, isEncryptedPayload } from './crypto';
 
-const CONVERSATIONS_KEY = 'ai-tutor-conversations';
 const SETTINGS_KEY = 'ai-tutor-settings';
-const NOTES_KEY = 'ai-tutor-notes';
+const KEY_VAULT_KEY = 'ai-tutor-key-vault';
 
 const defaultSettings: APISettings = {
   googleApiKey: '',
   zhipuApiKey: '',
   mistralApiKey: '',
-  selectedModel: 'google',
+  customEndpoints: [],
+  selectedModel: DEFAULT_MODEL_ID,
+  fallbackModels: [],
+  quizOptions: DEFAULT_QUIZ_OPTIONS,
   selectedTutorMode: 'standard', // Default tutor mode
+  customPersonas: [],
   theme: 'system', // New: Default theme setting
+  autoLockMinutes: 15,
 };
 
+export interface StoredData {
+  conversations: Conversation[];
+  notes: Note[];
+  quizzes?: StudySession[];
+  decks?: FlashcardDeck[];
+  flashcards?: Flashcard[];
+  folders?: Folder[];
+}
+
+// The encrypted ApiKeys, plus which custom endpoints have a key in them (not secret)
+export interface KeyVaultRecord extends EncryptedPayload {
+  endpointIds: string[];
+}
+
+// Everything as it was before the last backup import, so the import can be undone
+export interface ImportSnapshot {
+  createdAt: Date;
+  data: Required<StoredData>;
+  settings: APISettings;
+}
+
+const IMPORT_SNAPSHOT_KEY = 'importSnapshot';
+
+// Turns IndexedDB failures into messages a user can act on
+export function describeStorageError(error: unknown): string {
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return 'Storage is full. Delete old conversations or export a backup to free up space.';
+  }
+  return `Could not save your data: ${error instanceof Error ? error.message : 'Unknown error'}`;
+}
+
+function toMessage(record: MessageRecord): Message {
+  const msg: Partial<MessageRecord> = { ...record };
+  delete msg.conversationId;
+  delete msg.position;
+  return msg as Message;
+}
+
+function putConversation(tx: IDBTransaction, conv: Conversation, previous?: Conversation) {
+  const { messages, ...record } = conv;
+  tx.objectStore(STORES.conversations).put(record as ConversationRecord);
+
+  const messageStore = tx.objectStore(STORES.messages);
+  messages.forEach((msg, position) => {
+    // Unchanged messages keep their record; only new or edited ones are written
+    if (previous?.messages[position] === msg) return;
+    messageStore.put({ ...msg, conversationId: conv.id, position } as MessageRecord);
+  });
+
+  if (previous) {
+    const keptIds = new Set(messages.map(m => m.id));
+    previous.messages.filter(m => !keptIds.has(m.id)).forEach(m => messageStore.delete(m.id));
+  }
+}
+
+function deleteConversationRecords(tx: IDBTransaction, conv: Conversation) {
+  tx.objectStore(STORES.conversations).delete(conv.id);
+  conv.messages.forEach(m => tx.objectStore(STORES.messages).delete(m.id));
+}
+
+// Writes the records of a single-store collection that changed between two states
+async function syncRecords<T extends { id: string }>(storeName: string, previous: T[], next: T[]): Promise<void> {
+  const previousById = new Map(previous.map(r => [r.id, r]));
+  const nextIds = new Set(next.map(r => r.id));
+  const changed = next.filter(r => previousById.get(r.id) !== r);
+  const removed = previous.filter(r => !nextIds.has(r.id));
+  if (changed.length === 0 && removed.length === 0) return;
+
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readwrite');
+  changed.forEach(record => tx.objectStore(storeName).put(record));
+  removed.forEach(record => tx.objectStore(storeName).delete(record.id));
+  await transactionDone(tx);
+}
+
 export const storageUtils = {
-  getConversations(): Conversation[] {
-    try {
-      const stored = localStorage.getItem(CONVERSATIONS_KEY);
-      if (!stored) return [];
-      const parsed = JSON.parse(stored);
-      return parsed.map((conv: any) => ({
-        ...conv,
-        createdAt: new Date(conv.createdAt),
-        updatedAt: new Date(conv.updatedAt),
-        messages: conv.messages.map((msg: any) => ({
-          ...msg,
-          timestamp: new Date(msg.timestamp),
-        })),
-      }));
-    } catch (error) {
-      console.error('Error loading conversations:', error);
-      return [];
+  async getConversations(): Promise<Conversation[]> {
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.conversations, STORES.messages], 'readonly');
+    const [records, messageRecords] = await Promise.all([
+      requestToPromise<ConversationRecord[]>(tx.objectStore(STORES.conversations).getAll()),
+      requestToPromise<MessageRecord[]>(tx.objectStore(STORES.messages).getAll()),
+    ]);
+
+    const byConversation = new Map<string, MessageRecord[]>();
+    for (const record of messageRecords) {
+      const list = byConversation.get(record.conversationId) ?? [];
+      list.push(record);
+      byConversation.set(record.conversationId, list);
     }
+
+    return records.map(record => ({
+      ...record,
+      messages: (byConversation.get(record.id) ?? [])
+        .sort((a, b) => a.position - b.position)
+        .map(toMessage),
+    }));
   },
 
-  saveConversations(conversations: Conversation[]): void {
-    try {
-      localStorage.setItem(CONVERSATIONS_KEY, JSON.stringify(conversations));
-    } catch (error) {
-      console.error('Error saving conversations:', error);
-    }
+  // Writes only the conversations and messages that changed between two states
+  async syncConversations(previous: Conversation[], next: Conversation[]): Promise<void> {
+    const previousById = new Map(previous.map(c => [c.id, c]));
+    const nextIds = new Set(next.map(c => c.id));
+    const changed = next.filter(c => previousById.get(c.id) !== c);
+    const removed = previous.filter(c => !nextIds.has(c.id));
+    if (changed.length === 0 && removed.length === 0) return;
+
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.conversations, STORES.messages], 'readwrite');
+    changed.forEach(conv => putConversation(tx, conv, previousById.get(conv.id)));
+    removed.forEach(conv => deleteConversationRecords(tx, conv));
+    await transactionDone(tx);
+  },
+
+  async getNotes(): Promise<Note[]> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.notes, 'readonly');
+    return requestToPromise<Note[]>(tx.objectStore(STORES.notes).getAll());
+  },
+
+  async syncNotes(previous: Note[], next: Note[]): Promise<void> {
+    await syncRecords(STORES.notes, previous, next);
+  },
+
+  async getQuizzes(): Promise<StudySession[]> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.quizzes, 'readonly');
+    const quizzes = await requestToPromise<StudySession[]>(tx.objectStore(STORES.quizzes).getAll());
+    return quizzes.map(quiz => ({ ...quiz, questions: quiz.questions.map(withQuestionType) }));
+  },
+
+  async syncQuizzes(previous: StudySession[], next: StudySession[]): Promise<void> {
+    await syncRecords(STORES.quizzes, previous, next);
+  },
+
+  async getDecks(): Promise<FlashcardDeck[]> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.decks, 'readonly');
+    return requestToPromise<FlashcardDeck[]>(tx.objectStore(STORES.decks).getAll());
+  },
+
+  async syncDecks(previous: FlashcardDeck[], next: FlashcardDeck[]): Promise<void> {
+    await syncRecords(STORES.decks, previous, next);
+  },
+
+  async getFlashcards(): Promise<Flashcard[]> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.flashcards, 'readonly');
+    return requestToPromise<Flashcard[]>(tx.objectStore(STORES.flashcards).getAll());
+  },
+
+  async syncFlashcards(previous: Flashcard[], next: Flashcard[]): Promise<void> {
+    await syncRecords(STORES.flashcards, previous, next);
+  },
+
+  async getFolders(): Promise<Folder[]> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.folders, 'readonly');
+    return requestToPromise<Folder[]>(tx.objectStore(STORES.folders).getAll());
+  },
+
+  async syncFolders(previous: Folder[], next: Folder[]): Promise<void> {
+    await syncRecords(STORES.folders, previous, next);
+  },
+
+  async getAllData(): Promise<Required<StoredData>> {
+    const [conversations, notes, quizzes, decks, flashcards, folders] = await Promise.all([
+      this.getConversations(), this.getNotes(), this.getQuizzes(), this.getDecks(), this.getFlashcards(), this.getFolders(),
+    ]);
+    return { conversations, notes, quizzes, decks, flashcards, folders };
+  },
+
+  // Chats and notes from the old localStorage format that could not be moved over
+  takeSkippedLegacyCount(): number {
+    return takeSkippedLegacyCount();
+  },
+
+  async getImportSnapshot(): Promise<ImportSnapshot | null> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.meta, 'readonly');
+    const record = await requestToPromise<(ImportSnapshot & { key: string }) | undefined>(tx.objectStore(STORES.meta).get(IMPORT_SNAPSHOT_KEY));
+    return record ?? null;
+  },
+
+  // Only the latest snapshot is kept
+  async saveImportSnapshot(snapshot: ImportSnapshot): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.meta, 'readwrite');
+    tx.objectStore(STORES.meta).put({ key: IMPORT_SNAPSHOT_KEY, ...snapshot });
+    await transactionDone(tx);
+  },
+
+  async deleteImportSnapshot(): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.meta, 'readwrite');
+    tx.objectStore(STORES.meta).delete(IMPORT_SNAPSHOT_KEY);
+    await transactionDone(tx);
+  },
+
+  // Replaces all stored data, e.g. when restoring a backup
+  async replaceAllData({ conversations, notes, quizzes = [], decks = [], flashcards = [], folders = [] }: StoredData): Promise<void> {
+    const db = await openDatabase();
+    const storeNames = [STORES.conversations, STORES.messages, STORES.notes, STORES.quizzes, STORES.decks, STORES.flashcards, STORES.folders];
+    const tx = db.transaction(storeNames, 'readwrite');
+    storeNames.forEach(name => tx.objectStore(name).clear());
+    conversations.forEach(conv => putConversation(tx, conv));
+    notes.forEach(note => tx.objectStore(STORES.notes).put(note));
+    quizzes.forEach(quiz => tx.objectStore(STORES.quizzes).put(quiz));
+    decks.forEach(deck => tx.objectStore(STORES.decks).put(deck));
+    flashcards.forEach(card => tx.objectStore(STORES.flashcards).put(card));
+    folders.forEach(folder => tx.objectStore(STORES.folders).put(folder));
+    await transactionDone(tx);
   },
 
   getSettings(): APISettings {
@@ -53,41 +246,43 @@ export const storageUtils = {
     }
   },
 
+  // While the keys are encrypted they only live in the key vault
   saveSettings(settings: APISettings): void {
     try {
-      localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(this.getKeyVault() ? withoutApiKeys(settings) : settings));
     } catch (error) {
       console.error('Error saving settings:', error);
     }
   },
 
-  getNotes(): Note[] {
+  getKeyVault(): KeyVaultRecord | null {
     try {
-      const stored = localStorage.getItem(NOTES_KEY);
-      if (!stored) return [];
-      const parsed = JSON.parse(stored);
-      return parsed.map((note: any) => ({
-        ...note,
-        createdAt: new Date(note.createdAt),
-        updatedAt: new Date(note.updatedAt),
-      }));
+      const stored = localStorage.getItem(KEY_VAULT_KEY);
+      const vault: unknown = stored ? JSON.parse(stored) : null;
+      if (!isEncryptedPayload(vault)) return null;
+      const { endpointIds } = vault as Partial<KeyVaultRecord>;
+      return { ...vault, endpointIds: Array.isArray(endpointIds) ? endpointIds : [] };
     } catch (error) {
-      console.error('Error loading notes:', error);
-      return [];
+      console.error('Error loading key vault:', error);
+      return null;
     }
   },
 
-  saveNotes(notes: Note[]): void {
-    try {
-      localStorage.setItem(NOTES_KEY, JSON.stringify(notes));
-    } catch (error) {
-      console.error('Error saving notes:', error);
-    }
+  saveKeyVault(vault: KeyVaultRecord): void {
+    localStorage.setItem(KEY_VAULT_KEY, JSON.stringify(vault));
+  },
+
+  deleteKeyVault(): void {
+    localStorage.removeItem(KEY_VAULT_KEY);
   },
 
-  clearAllData(): void {
-    localStorage.removeItem(CONVERSATIONS_KEY);
+  async clearAllData(): Promise<void> {
     localStorage.removeItem(SETTINGS_KEY);
-    localStorage.removeItem(NOTES_KEY);
+    localStorage.removeItem(KEY_VAULT_KEY);
+    const db = await openDatabase();
+    const storeNames = Array.from(db.objectStoreNames);
+    const tx = db.transaction(storeNames, 'readwrite');
+    storeNames.forEach(name => tx.objectStore(name).clear());
+    await transactionDone(tx);
   }
 };